@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "OktaUser" (
+    "ssoGuid" TEXT NOT NULL PRIMARY KEY,
+    "oktaId" TEXT NOT NULL,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "status" TEXT NOT NULL,
+    "primaryEmail" TEXT NOT NULL,
+    "primaryEmailStatus" TEXT NOT NULL,
+    "fetchedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "OktaUser_fetchedAt_idx" ON "OktaUser"("fetchedAt");
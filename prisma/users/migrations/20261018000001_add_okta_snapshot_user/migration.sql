@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "OktaSnapshotUser" (
+    "oktaId" TEXT NOT NULL PRIMARY KEY,
+    "theKeyGuid" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "emails" TEXT NOT NULL,
+    "syncedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "OktaSnapshotUser_theKeyGuid_idx" ON "OktaSnapshotUser"("theKeyGuid");
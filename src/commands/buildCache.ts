@@ -5,134 +5,651 @@
  */
 
 import cliProgress from 'cli-progress'
-import { getClient } from '../lib/couchbase.js'
-import { getDocuments, getDocumentCount } from '../lib/document-processor.js'
+import {
+  buildAttachmentMap,
+  writeAttachmentMap,
+  type AttachmentMap,
+  type AttachmentStatus,
+} from '../lib/attachment-map.js'
+import { CacheArchiveWriter } from '../lib/cache-archive.js'
+import {
+  clearCheckpoint,
+  describeSettingsChanges,
+  readCheckpoint,
+  writeCheckpoint,
+  type BuildCacheCheckpoint,
+  type CachePass,
+  type PassTotals,
+} from '../lib/checkpoint.js'
+import { CacheIndex } from '../lib/cache-index.js'
+import {
+  joinCacheLocation,
+  openCacheStore,
+  type CacheStore,
+} from '../lib/cache-store.js'
+import {
+  CouchbaseClient,
+  getClient,
+  getKeyspaceFolder,
+  type Keyspace,
+} from '../lib/couchbase.js'
+import {
+  CACHE_DIR,
+  getDocuments,
+  getDocumentCount,
+  processDocuments,
+  removeDeletedDocuments,
+  type DocumentFilter,
+} from '../lib/document-processor.js'
 import { Logger } from '../lib/logger.js'
 
 /**
- * Build cache by migrating all documents from Couchbase
- * @param options Options for cache building
+ * How binary attachments are handled: skipped, downloaded in a second pass
+ * after the JSON documents, or downloaded on their own
  */
-export async function buildCache(
-  options: { skipAttachments?: boolean; debug?: boolean } = {}
-): Promise<void> {
-  const { skipAttachments = true, debug = false } = options
-  const logger = new Logger(debug)
+export type AttachmentsMode = 'skip' | 'include' | 'only'
 
-  let progressBar: cliProgress.SingleBar | null = null
+/**
+ * How JSON documents are laid out in the cache: one file per document, or
+ * gzipped NDJSON archive segments (one per top-level folder)
+ */
+export type CacheFormat = 'files' | 'archive'
 
-  const client = getClient({ debug })
+const PASS_LABELS: Record<CachePass, { icon: string; title: string }> = {
+  documents: { icon: '📄', title: 'Building cache' },
+  attachments: { icon: '📎', title: 'Downloading attachments' },
+}
 
-  try {
-    await client.connect()
+/**
+ * State shared by every pass of a build-cache run
+ */
+interface BuildCacheContext {
+  client: CouchbaseClient
+  logger: Logger
+  store: CacheStore
+  index: CacheIndex
+  archive: CacheArchiveWriter
+  format: CacheFormat
+  keyspace: Keyspace
+  bucketName: string
+  startedAt: string
+  completedPasses: BuildCacheCheckpoint['completedPasses']
+  includePrefixes: string[]
+  excludePrefixes: string[]
+  incremental: boolean
+  concurrency: number
+  debug: boolean
+}
 
-    logger.log('✨ Migration framework ready!')
-    if (skipAttachments) {
-      logger.log(
-        '⏭️ Skipping binary attachments - processing JSON documents only'
-      )
-    }
+/**
+ * Get the layout the cache's JSON documents are written in
+ * @param index Cache index of the cache store
+ * @returns Cache format, or null if no JSON documents are cached yet
+ */
+export function getCacheFormat(index: CacheIndex): CacheFormat | null {
+  const cachedDocument = Array.from(index.values()).find(
+    entry => entry.type === 'json'
+  )
+  if (!cachedDocument) {
+    return null
+  }
+  return cachedDocument.archived ? 'archive' : 'files'
+}
 
-    // Get total document count for progress bar
-    logger.info('📊 Getting total document count...')
-    const totalDocuments = await getDocumentCount(
-      client,
-      logger,
-      skipAttachments
+/**
+ * Check that JSON documents are written in the layout the cache already uses
+ * Mixing layouts would leave documents in both, with readers only seeing the
+ * archived copy of a folder
+ * @param index Cache index of the cache store
+ * @param store Cache store
+ * @param format Layout the documents are about to be written in
+ * @throws If the cache already holds JSON documents in the other layout
+ */
+export function assertCacheFormat(
+  index: CacheIndex,
+  store: CacheStore,
+  format: CacheFormat
+): void {
+  const cachedFormat = getCacheFormat(index)
+  if (cachedFormat !== null && cachedFormat !== format) {
+    throw new Error(
+      `Cache in ${store.location} was built with --format ${cachedFormat}, not ${format} - use an empty cache directory to switch formats`
     )
-    logger.info(`📊 Found ${totalDocuments} documents to process`)
+  }
+}
 
-    // Paginate through all documents
-    if (debug) {
-      logger.log('\n📄 Starting full document migration...')
-    } else {
-      progressBar = new cliProgress.SingleBar(
-        {
-          format:
-            '📄 Building cache |{bar}| {percentage}% | {value}/{total} documents | Elapsed: {duration_formatted} | ETA: {eta_formatted}',
-          barCompleteChar: '\u2588',
-          barIncompleteChar: '\u2591',
-          hideCursor: true,
-        },
-        cliProgress.Presets.shades_classic
-      )
-      progressBar.start(totalDocuments, 0)
-    }
+/**
+ * Run one pass (JSON documents or attachments) over the bucket
+ * @param pass Which pass to run
+ * @param context Shared build-cache state
+ * @param resumeFrom Checkpoint to continue from if this pass was interrupted
+ * @returns Totals for the pass
+ */
+async function runPass(
+  pass: CachePass,
+  context: BuildCacheContext,
+  resumeFrom: BuildCacheCheckpoint | null
+): Promise<PassTotals> {
+  const {
+    client,
+    logger,
+    store,
+    index,
+    archive,
+    format,
+    incremental,
+    concurrency,
+    debug,
+  } = context
+  const { icon, title } = PASS_LABELS[pass]
+
+  const filter: DocumentFilter = {
+    type: pass,
+    keyspace: context.keyspace,
+    includePrefixes: context.includePrefixes,
+    excludePrefixes: context.excludePrefixes,
+  }
 
-    let offset = 0
-    const limit = 1000
-    let totalProcessed = 0
-    let totalSkipped = 0
-    let pageNumber = 1
+  // Get total document count for progress bar
+  logger.info(`\n${icon} ${title}`)
+  logger.info(`📊 Getting total ${pass} count...`)
+  const totalDocuments = await getDocumentCount(client, logger, filter)
+  logger.info(`📊 Found ${totalDocuments} ${pass} to process`)
 
-    while (true) {
-      logger.log(`\n📄 Processing page ${pageNumber} (offset: ${offset})...`)
-      const paginationResult = await getDocuments(client, logger, {
-        offset,
+  let cursor = resumeFrom?.cursor ?? ''
+  const limit = 1000
+  const totals: PassTotals = resumeFrom?.totals ?? {
+    pages: 0,
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+    changed: 0,
+    deleted: 0,
+  }
+
+  // Snapshot of what was cached before this pass, used to spot documents
+  // that have since been deleted from Couchbase
+  const indexedIds = incremental ? index.sortedIds() : []
+
+  let progressBar: cliProgress.SingleBar | null = null
+  if (debug) {
+    logger.log(`\n${icon} Starting ${pass} pass...`)
+  } else {
+    progressBar = new cliProgress.SingleBar(
+      {
+        format: `${icon} ${title} |{bar}| {percentage}% | {value}/{total} ${pass} | Elapsed: {duration_formatted} | ETA: {eta_formatted}`,
+        barCompleteChar: '\u2588',
+        barIncompleteChar: '\u2591',
+        hideCursor: true,
+      },
+      cliProgress.Presets.shades_classic
+    )
+    progressBar.start(
+      totalDocuments,
+      totals.processed + totals.skipped + totals.failed
+    )
+  }
+
+  try {
+    // Always keep the next page in flight while the current one is written
+    // to disk, so fetching and writing overlap instead of alternating
+    const fetchPage = (afterCursor: string) => {
+      const pagePromise = getDocuments(client, logger, {
+        cursor: afterCursor,
         limit,
-        skipAttachments,
+        filter,
       })
+      // The page is awaited later - don't treat a failure as unhandled
+      // while the previous page is still being written
+      pagePromise.catch(() => {})
+      return pagePromise
+    }
+    let nextPage = fetchPage(cursor)
+
+    while (true) {
+      const pageNumber = totals.pages + 1
+      logger.log(
+        `\n${icon} Processing page ${pageNumber} (after: ${cursor || 'start'})...`
+      )
+      const page = await nextPage
+      if (page.hasMore) {
+        nextPage = fetchPage(page.nextCursor)
+      }
 
-      const documentsInPage =
-        paginationResult.documentsProcessed + paginationResult.documentsSkipped
-      totalProcessed += paginationResult.documentsProcessed
-      totalSkipped += paginationResult.documentsSkipped
+      const pageResult = await processDocuments(
+        page.documents,
+        client,
+        store,
+        logger,
+        {
+          concurrency,
+          index,
+          ...(format === 'archive' && { archive }),
+          incremental,
+          keyspace: context.keyspace,
+          onDocumentDone: () => progressBar?.increment(),
+        }
+      )
 
-      const total = totalProcessed + totalSkipped
+      totals.pages = pageNumber
+      totals.processed += pageResult.documentsProcessed
+      totals.skipped += pageResult.documentsSkipped
+      totals.failed += pageResult.documentsFailed
+      totals.changed += pageResult.documentsChanged
 
-      if (progressBar) {
-        progressBar.update(total, {
-          value: total,
-        })
+      if (incremental) {
+        totals.deleted += await removeDeletedDocuments(
+          index,
+          store,
+          indexedIds,
+          {
+            after: cursor,
+            ...(page.hasMore && { upTo: page.nextCursor }),
+          },
+          new Set(page.documents.map(doc => doc.id)),
+          filter,
+          logger,
+          archive
+        )
       }
 
-      logger.log(`📋 Retrieved ${documentsInPage} documents in this page`)
-      logger.log(`✅ Processed: ${paginationResult.documentsProcessed}`)
-      logger.log(`⏭️ Skipped: ${paginationResult.documentsSkipped}`)
-      logger.log(`🔄 Has more pages: ${paginationResult.hasMore}`)
+      logger.log(`📋 Retrieved ${page.documents.length} ${pass} in this page`)
+      logger.log(`✅ Processed: ${pageResult.documentsProcessed}`)
+      logger.log(`⏭️ Skipped: ${pageResult.documentsSkipped}`)
+      logger.log(`❌ Failed: ${pageResult.documentsFailed}`)
+      logger.log(`🔄 Has more pages: ${page.hasMore}`)
 
-      if (documentsInPage > 0) {
+      if (page.documents.length > 0) {
         logger.log(
-          `✅ Successfully processed ${paginationResult.documentsProcessed} documents in page ${pageNumber}`
+          `✅ Successfully processed ${pageResult.documentsProcessed} ${pass} in page ${pageNumber}`
         )
       } else {
-        logger.log(`ℹ️ No documents found in page ${pageNumber}`)
+        logger.log(`ℹ️ No ${pass} found in page ${pageNumber}`)
       }
 
-      // Update offset for next page
-      offset = paginationResult.nextOffset
-      pageNumber++
+      // Move the cursor past the last document of this page and record it
+      // so a crashed run can pick up from here
+      cursor = page.nextCursor
+      await archive.flush()
+      await index.flush()
+      await writeCheckpoint(store, {
+        bucketName: context.bucketName,
+        settings: {
+          format: context.format,
+          includePrefixes: context.includePrefixes,
+          excludePrefixes: context.excludePrefixes,
+          incremental: context.incremental,
+        },
+        pass,
+        cursor,
+        totals,
+        completedPasses: context.completedPasses,
+        startedAt: context.startedAt,
+        updatedAt: new Date().toISOString(),
+      })
 
       // Check if we should continue
-      if (!paginationResult.hasMore) {
-        if (progressBar) {
-          progressBar.stop()
-        }
-        logger.log('\n🏁 No more pages available - migration complete!')
+      if (!page.hasMore) {
+        logger.log(`\n🏁 No more pages available - ${pass} pass complete!`)
         break
       }
-
-      // Add a small delay between pages to be gentle on the server
-      await new Promise(resolve => setTimeout(resolve, 100))
     }
-
-    // Final statistics
-    logger.info('\n📊 Migration Summary:')
-    logger.info(`📄 Total pages processed: ${pageNumber - 1}`)
-    logger.info(`📋 Total documents found: ${totalProcessed + totalSkipped}`)
-    logger.info(`✅ Total documents processed: ${totalProcessed}`)
-    logger.info(`⏭️ Total documents skipped (already existed): ${totalSkipped}`)
-  } catch (error) {
+  } finally {
     if (progressBar) {
       progressBar.stop()
     }
-    logger.error('❌ Error during Couchbase operations:', error)
-    throw error
-  } finally {
+  }
+
+  return totals
+}
+
+/**
+ * Log the summary of one pass
+ * @param pass Pass the totals belong to
+ * @param totals Totals for the pass
+ * @param incremental Whether the run was incremental
+ * @param logger Logger instance
+ */
+function logPassSummary(
+  pass: CachePass,
+  totals: PassTotals,
+  incremental: boolean,
+  logger: Logger
+): void {
+  const { icon, title } = PASS_LABELS[pass]
+  logger.info(`\n${icon} ${title}:`)
+  logger.info(`📄 Total pages processed: ${totals.pages}`)
+  logger.info(
+    `📋 Total ${pass} found: ${totals.processed + totals.skipped + totals.failed}`
+  )
+  logger.info(`✅ Total ${pass} processed: ${totals.processed}`)
+  logger.info(`⏭️ Total ${pass} skipped (already existed): ${totals.skipped}`)
+  logger.info(`❌ Total ${pass} failed: ${totals.failed}`)
+  if (incremental) {
+    logger.info(`🆕 New: ${totals.processed - totals.changed}`)
+    logger.info(`✏️ Changed: ${totals.changed}`)
+    logger.info(`💤 Unchanged: ${totals.skipped}`)
+    logger.info(`🗑️ Deleted: ${totals.deleted}`)
+  }
+}
+
+/**
+ * Log the summary of the attachment map
+ * @param attachmentMap Attachment map built for this run
+ * @param attachmentMapPath Path the map was written to
+ * @param logger Logger instance
+ */
+function logAttachmentMapSummary(
+  attachmentMap: AttachmentMap,
+  attachmentMapPath: string,
+  logger: Logger
+): void {
+  const attachments = Object.values(attachmentMap.documents).flatMap(
+    document => document.attachments
+  )
+  const count = (status: AttachmentStatus) =>
+    attachments.filter(attachment => attachment.status === status).length
+
+  logger.info('\n🔗 Attachment map:')
+  logger.info(
+    `📄 Documents with attachments: ${Object.keys(attachmentMap.documents).length}`
+  )
+  logger.info(`📎 Attachment references: ${attachments.length}`)
+  logger.info(`✅ Cached: ${count('cached')}`)
+  logger.info(`⏳ Not downloaded yet: ${count('not-cached')}`)
+  logger.info(
+    `🕳️ Missing from bucket: ${count('missing')} (${attachmentMap.missing.length} digests)`
+  )
+  for (const { id, referencedBy } of attachmentMap.missing) {
+    logger.warn(`⚠️ ${id} is referenced by ${referencedBy.join(', ')}`)
+  }
+  logger.info(`📁 Written to ${attachmentMapPath}`)
+}
+
+/**
+ * Settings shared by the build of every keyspace in a build-cache run
+ */
+interface KeyspaceBuildSettings {
+  passes: CachePass[]
+  format: CacheFormat
+  resume: boolean
+  includePrefixes: string[]
+  excludePrefixes: string[]
+  incremental: boolean
+  attachmentMap: boolean
+  concurrency: number
+  debug: boolean
+}
+
+/**
+ * Build the cache of one keyspace in its own cache store, with its own
+ * checkpoint, cache index and (with --attachment-map) attachment map
+ * @param client Couchbase client instance
+ * @param keyspace Scope and collection to cache
+ * @param store Cache store for the keyspace
+ * @param settings Build settings
+ * @param logger Logger instance
+ */
+async function buildKeyspaceCache(
+  client: CouchbaseClient,
+  keyspace: Keyspace,
+  store: CacheStore,
+  settings: KeyspaceBuildSettings,
+  logger: Logger
+): Promise<void> {
+  const {
+    passes,
+    format,
+    resume,
+    includePrefixes,
+    excludePrefixes,
+    incremental,
+    attachmentMap,
+    concurrency,
+    debug,
+  } = settings
+
+  logger.info(`📁 Cache location: ${store.location}`)
+
+  const { bucketName } = client.getConfig()
+  let startedAt = new Date().toISOString()
+  let completedPasses: BuildCacheCheckpoint['completedPasses'] = {}
+
+  const checkpoint = await readCheckpoint(store, logger)
+  let resumeFrom: BuildCacheCheckpoint | null = null
+  if (resume && checkpoint) {
+    if (checkpoint.bucketName !== bucketName) {
+      throw new Error(
+        `Checkpoint was written for bucket ${checkpoint.bucketName}, not ${bucketName}`
+      )
+    }
+    // Resuming with other options would leave a cache that matches neither
+    if (!checkpoint.settings) {
+      throw new Error(
+        'Checkpoint does not record the options it was written with - run without --resume to start over'
+      )
+    }
+    const changes = describeSettingsChanges(checkpoint.settings, {
+      format,
+      includePrefixes,
+      excludePrefixes,
+      incremental,
+    })
+    if (changes) {
+      throw new Error(
+        `Checkpoint was written with ${changes} - resume with the same options, or run without --resume to start over`
+      )
+    }
+    resumeFrom = checkpoint
+    startedAt = checkpoint.startedAt
+    completedPasses = checkpoint.completedPasses
+    logger.info(
+      `⏯️ Resuming ${checkpoint.pass} pass from page ${checkpoint.totals.pages + 1} (after: ${checkpoint.cursor || 'start'}, started at ${startedAt})`
+    )
+  } else if (resume) {
+    logger.info('ℹ️ No checkpoint found - starting from the beginning')
+  } else if (checkpoint) {
+    logger.info(
+      `ℹ️ Ignoring checkpoint from an earlier run at ${checkpoint.pass} page ${checkpoint.totals.pages} (use --resume to continue it)`
+    )
+  }
+
+  const index = await CacheIndex.load(store, logger)
+  logger.info(`🗂️ Cache index has ${index.size} documents`)
+
+  if (passes.includes('documents')) {
+    assertCacheFormat(index, store, format)
+  }
+
+  const context: BuildCacheContext = {
+    client,
+    logger,
+    store,
+    index,
+    archive: new CacheArchiveWriter(store),
+    format,
+    keyspace,
+    bucketName,
+    startedAt,
+    completedPasses,
+    includePrefixes,
+    excludePrefixes,
+    incremental,
+    concurrency,
+    debug,
+  }
+
+  for (const pass of passes) {
+    if (completedPasses[pass]) {
+      logger.info(`⏭️ ${pass} pass already completed in an earlier attempt`)
+      continue
+    }
+    completedPasses[pass] = await runPass(
+      pass,
+      context,
+      resumeFrom?.pass === pass ? resumeFrom : null
+    )
+  }
+
+  logger.log('\n🏁 All passes complete - migration complete!')
+  await context.archive.compact(logger)
+  await index.compact()
+  await clearCheckpoint(store, logger)
+
+  // Reads every cached JSON document, so it only runs when asked for
+  let attachmentMapSummary: { map: AttachmentMap; path: string } | null = null
+  if (attachmentMap) {
+    logger.info('\n🔗 Mapping documents to their attachments...')
+    const map = await buildAttachmentMap(client, index, store, logger, {
+      concurrency,
+      keyspace,
+    })
+    attachmentMapSummary = { map, path: await writeAttachmentMap(store, map) }
+  }
+
+  // Final statistics
+  logger.info('\n📊 Migration Summary:')
+  logger.info(`🕐 Started at: ${startedAt}`)
+  for (const pass of passes) {
+    const totals = completedPasses[pass]
+    if (totals) {
+      logPassSummary(pass, totals, incremental, logger)
+    }
+  }
+  if (attachmentMapSummary) {
+    logAttachmentMapSummary(
+      attachmentMapSummary.map,
+      attachmentMapSummary.path,
+      logger
+    )
+  }
+}
+
+/**
+ * Build cache by migrating all documents from Couchbase
+ * With several buckets, each bucket is cached in its own sub-folder of the
+ * cache directory ("<cacheDir>/<bucket>") and gets its own summary
+ * @param options Options for cache building
+ */
+export async function buildCache(
+  options: {
+    buckets?: string[] // Default: COUCHBASE_BUCKET_NAME
+    attachments?: AttachmentsMode
+    format?: CacheFormat
+    cacheDir?: string
+    includePrefixes?: string[]
+    excludePrefixes?: string[]
+    resume?: boolean
+    incremental?: boolean
+    attachmentMap?: boolean // Map cached documents to their attachments (default: false)
+    concurrency?: number
+    debug?: boolean
+  } = {}
+): Promise<void> {
+  const {
+    buckets = [],
+    attachments = 'skip',
+    format = 'files',
+    cacheDir = CACHE_DIR,
+    includePrefixes = [],
+    excludePrefixes = [],
+    resume = false,
+    incremental = false,
+    attachmentMap = false,
+    concurrency = 10,
+    debug = false,
+  } = options
+  const logger = new Logger(debug)
+
+  logger.log('✨ Migration framework ready!')
+  if (attachments === 'skip') {
+    logger.info(
+      '⏭️ Skipping binary attachments - processing JSON documents only (use --attachments to download them)'
+    )
+  } else if (attachments === 'only') {
+    logger.info('📎 Downloading binary attachments only')
+  }
+  if (includePrefixes.length > 0) {
+    logger.info(`🔎 Including ID prefixes: ${includePrefixes.join(', ')}`)
+  }
+  if (excludePrefixes.length > 0) {
+    logger.info(`🚫 Excluding ID prefixes: ${excludePrefixes.join(', ')}`)
+  }
+  if (incremental) {
+    logger.info(
+      '🔁 Incremental mode - only documents whose CAS changed are rewritten'
+    )
+  }
+  if (format === 'archive') {
+    logger.info(
+      '🗜️ Archive format - JSON documents are written to archive/*.ndjson.gz'
+    )
+  }
+  logger.info(`⚡ Concurrency: ${concurrency}`)
+
+  const passes: CachePass[] =
+    attachments === 'only'
+      ? ['attachments']
+      : attachments === 'include'
+        ? ['documents', 'attachments']
+        : ['documents']
+
+  const settings: KeyspaceBuildSettings = {
+    passes,
+    format,
+    resume,
+    includePrefixes,
+    excludePrefixes,
+    incremental,
+    attachmentMap,
+    concurrency,
+    debug,
+  }
+
+  // A single bucket is cached in the cache directory itself
+  const multipleBuckets = buckets.length > 1
+  const clients =
+    buckets.length > 0
+      ? buckets.map(bucketName => getClient({ debug, bucketName }))
+      : [getClient({ debug })]
+
+  for (const client of clients) {
+    const { bucketName } = client.getConfig()
+    const bucketDir = multipleBuckets
+      ? joinCacheLocation(cacheDir, bucketName)
+      : cacheDir
+    if (multipleBuckets) {
+      logger.info(`\n${'='.repeat(60)}`)
+      logger.info(`🪣 Bucket ${bucketName}`)
+      logger.info('='.repeat(60))
+    }
+
     try {
-      await client.disconnect()
-    } catch (disconnectError) {
-      logger.error('❌ Error disconnecting:', disconnectError)
+      await client.connect()
+
+      // Each keyspace gets its own sub-folder of the cache (the default
+      // collection is cached in the root, as before scopes were supported)
+      const keyspaces = client.getKeyspaces()
+      for (const keyspace of keyspaces) {
+        const folder = getKeyspaceFolder(keyspace)
+        const store = openCacheStore(joinCacheLocation(bucketDir, folder))
+        if (keyspaces.length > 1 || folder) {
+          logger.info(`\n🗂️ Keyspace ${keyspace.scope}.${keyspace.collection}`)
+        }
+        await buildKeyspaceCache(client, keyspace, store, settings, logger)
+      }
+    } catch (error) {
+      logger.error(
+        `❌ Error during Couchbase operations on bucket ${bucketName}:`,
+        error
+      )
+      throw error
+    } finally {
+      try {
+        await client.disconnect()
+      } catch (disconnectError) {
+        logger.error('❌ Error disconnecting:', disconnectError)
+      }
     }
   }
 }
@@ -0,0 +1,169 @@
+/**
+ * Fetch Module
+ *
+ * Pulls specific documents into the cache by ID, without walking the whole
+ * bucket like build-cache does
+ */
+
+import { promises as fs } from 'fs'
+import cliProgress from 'cli-progress'
+import { CacheArchiveWriter } from '../lib/cache-archive.js'
+import { CacheIndex } from '../lib/cache-index.js'
+import { joinCacheLocation, openCacheStore } from '../lib/cache-store.js'
+import {
+  getClient,
+  getKeyspaceFolder,
+  type Keyspace,
+} from '../lib/couchbase.js'
+import { CACHE_DIR, fetchDocumentsById } from '../lib/document-processor.js'
+import { Logger } from '../lib/logger.js'
+import {
+  assertCacheFormat,
+  getCacheFormat,
+  type CacheFormat,
+} from './buildCache.js'
+
+export interface FetchSummary {
+  processed: number
+  skipped: number
+  failed: number
+  notFound: string[]
+}
+
+/**
+ * Read document IDs from a file, one per line
+ * Blank lines and lines starting with "#" are ignored
+ * @param filePath Path to the IDs file
+ * @returns Unique document IDs in file order
+ */
+export async function readIdsFile(filePath: string): Promise<string[]> {
+  const content = await fs.readFile(filePath, 'utf8')
+  const ids = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+  return Array.from(new Set(ids))
+}
+
+/**
+ * Fetch documents by ID from Couchbase and write them to the cache
+ * @param options Options for fetching
+ * @returns Summary of the fetch
+ */
+export async function fetchDocuments(options: {
+  ids: string[]
+  cacheDir?: string
+  format?: CacheFormat
+  overwrite?: boolean
+  keyspace?: Keyspace // Default: the first configured keyspace
+  concurrency?: number
+  debug?: boolean
+}): Promise<FetchSummary> {
+  const {
+    ids,
+    cacheDir = CACHE_DIR,
+    overwrite = false,
+    concurrency = 10,
+    debug = false,
+  } = options
+  const logger = new Logger(debug)
+
+  if (ids.length === 0) {
+    throw new Error('No document IDs to fetch')
+  }
+
+  const client = getClient({ debug })
+
+  try {
+    await client.connect()
+
+    const keyspace = options.keyspace ?? client.getKeyspaces()[0]
+    if (!keyspace) {
+      throw new Error('No keyspaces configured')
+    }
+    const store = openCacheStore(
+      joinCacheLocation(cacheDir, getKeyspaceFolder(keyspace))
+    )
+    const index = await CacheIndex.load(store, logger)
+
+    // Write in the layout the cache already uses unless told otherwise
+    const format = options.format ?? getCacheFormat(index) ?? 'files'
+    assertCacheFormat(index, store, format)
+
+    logger.info(`📥 Fetching ${ids.length} documents by ID`)
+    logger.info(`🗂️ Keyspace: ${keyspace.scope}.${keyspace.collection}`)
+    logger.info(`📁 Cache location: ${store.location}`)
+    if (overwrite) {
+      logger.info(
+        '🔁 Overwrite mode - cached documents whose CAS changed are rewritten'
+      )
+    }
+    if (format === 'archive') {
+      logger.info(
+        '🗜️ Archive format - JSON documents are written to archive/*.ndjson.gz'
+      )
+    }
+
+    const isTTY = process.stdout.isTTY ?? false
+    let progressBar: cliProgress.SingleBar | null = null
+    if (!debug && isTTY) {
+      progressBar = new cliProgress.SingleBar(
+        {
+          format:
+            '📥 Fetching documents |{bar}| {percentage}% | {value}/{total} documents | Elapsed: {duration_formatted} | ETA: {eta_formatted}',
+          barCompleteChar: '\u2588',
+          barIncompleteChar: '\u2591',
+          hideCursor: true,
+        },
+        cliProgress.Presets.shades_classic
+      )
+      progressBar.start(ids.length, 0)
+    }
+
+    const archive = new CacheArchiveWriter(store)
+    let result: Awaited<ReturnType<typeof fetchDocumentsById>>
+    try {
+      result = await fetchDocumentsById(ids, client, store, logger, {
+        concurrency,
+        index,
+        ...(format === 'archive' && { archive }),
+        overwrite,
+        keyspace,
+        onDocumentDone: () => progressBar?.increment(),
+      })
+    } finally {
+      if (progressBar) {
+        progressBar.stop()
+      }
+    }
+    await archive.compact(logger)
+    await index.compact()
+
+    logger.info('\n📊 Fetch Summary:')
+    logger.info(`✅ Documents written: ${result.documentsProcessed}`)
+    logger.info(
+      `⏭️ Documents skipped (${overwrite ? 'unchanged' : 'already cached'}): ${result.documentsSkipped}`
+    )
+    logger.info(`❌ Documents failed: ${result.documentsFailed}`)
+    logger.info(`🕳️ Documents not found: ${result.documentsNotFound.length}`)
+    for (const id of result.documentsNotFound) {
+      logger.info(`  ${id}`)
+    }
+
+    return {
+      processed: result.documentsProcessed,
+      skipped: result.documentsSkipped,
+      failed: result.documentsFailed,
+      notFound: result.documentsNotFound,
+    }
+  } catch (error) {
+    logger.error('❌ Error fetching documents:', error)
+    throw error
+  } finally {
+    try {
+      await client.disconnect()
+    } catch (disconnectError) {
+      logger.error('❌ Error disconnecting:', disconnectError)
+    }
+  }
+}
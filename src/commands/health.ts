@@ -0,0 +1,230 @@
+/**
+ * Health Module
+ *
+ * Checks the connection to Couchbase: pings every service endpoint of each
+ * bucket and reads from each configured keyspace, printing what answered
+ * and how quickly
+ */
+
+import { getClient, type CouchbaseClient } from '../lib/couchbase.js'
+import type { EndpointHealth } from '../lib/couchbase-health.js'
+import { Logger } from '../lib/logger.js'
+
+// Looked up (never written) to check a keyspace answers KV requests
+const PROBE_DOCUMENT_ID = '_couchbase_migrator_health_check'
+
+export interface KeyspaceHealth {
+  keyspace: string // "<scope>.<collection>"
+  reachable: boolean
+  latencyMs: number | null
+  error: string | null
+}
+
+export interface BucketHealth {
+  bucketName: string
+  connected: boolean
+  connectMs: number | null
+  endpoints: EndpointHealth[]
+  keyspaces: KeyspaceHealth[]
+  healthy: boolean // Connected, every endpoint answered, every keyspace read
+  error: string | null
+}
+
+/**
+ * Format a latency for display
+ * @param latencyMs Latency in milliseconds
+ * @returns e.g. "1.2ms", or "-" if unknown
+ */
+function formatLatency(latencyMs: number | null): string {
+  return latencyMs !== null ? `${latencyMs.toFixed(1)}ms` : '-'
+}
+
+/**
+ * Get the message of an unknown error
+ * @param error Error thrown
+ * @returns Error message
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Check that each configured keyspace of a bucket answers KV requests
+ * @param client Connected Couchbase client
+ * @returns Health of each keyspace
+ */
+async function checkKeyspaces(
+  client: CouchbaseClient
+): Promise<KeyspaceHealth[]> {
+  const { operationTimeout } = client.getConfig()
+  const results: KeyspaceHealth[] = []
+  for (const keyspace of client.getKeyspaces()) {
+    const name = `${keyspace.scope}.${keyspace.collection}`
+    const startTime = Date.now()
+    try {
+      const collection = await client.getCollection(keyspace)
+      await collection.exists(PROBE_DOCUMENT_ID, { timeout: operationTimeout })
+      results.push({
+        keyspace: name,
+        reachable: true,
+        latencyMs: Date.now() - startTime,
+        error: null,
+      })
+    } catch (error) {
+      results.push({
+        keyspace: name,
+        reachable: false,
+        latencyMs: null,
+        error: getErrorMessage(error),
+      })
+    }
+  }
+  return results
+}
+
+/**
+ * Check the health of one bucket's connection
+ * @param client Couchbase client of the bucket
+ * @param logger Logger instance
+ * @returns Bucket health
+ */
+async function checkBucket(
+  client: CouchbaseClient,
+  logger: Logger
+): Promise<BucketHealth> {
+  const { bucketName } = client.getConfig()
+  const health: BucketHealth = {
+    bucketName,
+    connected: false,
+    connectMs: null,
+    endpoints: [],
+    keyspaces: [],
+    healthy: false,
+    error: null,
+  }
+
+  const startTime = Date.now()
+  try {
+    await client.connect()
+  } catch (error) {
+    health.error = getErrorMessage(error)
+    return health
+  }
+  health.connected = true
+  health.connectMs = Date.now() - startTime
+
+  try {
+    const report = await client.ping()
+    health.endpoints = report.endpoints
+  } catch (error) {
+    logger.warn('⚠️ Ping failed:', error)
+    health.error = `Ping failed: ${getErrorMessage(error)}`
+  }
+
+  health.keyspaces = await checkKeyspaces(client)
+  health.healthy =
+    health.error === null &&
+    health.endpoints.length > 0 &&
+    health.endpoints.every(endpoint => endpoint.status === 'ok') &&
+    health.keyspaces.every(keyspace => keyspace.reachable)
+  return health
+}
+
+/**
+ * Print the health of a bucket
+ * @param health Bucket health
+ * @param logger Logger instance
+ */
+function printBucketHealth(health: BucketHealth, logger: Logger): void {
+  logger.info(`\n🩺 Bucket ${health.bucketName}`)
+  if (!health.connected) {
+    logger.info(`  ❌ Could not connect: ${health.error}`)
+    return
+  }
+  logger.info(`  🔌 Connected in ${formatLatency(health.connectMs)}`)
+
+  logger.info('  🧩 Services:')
+  if (health.endpoints.length === 0) {
+    logger.info('    (no endpoints reported)')
+  }
+  const serviceWidth = Math.max(
+    ...health.endpoints.map(endpoint => endpoint.service.length),
+    0
+  )
+  const remoteWidth = Math.max(
+    ...health.endpoints.map(endpoint => endpoint.remote.length),
+    0
+  )
+  for (const endpoint of health.endpoints) {
+    const icon = endpoint.status === 'ok' ? '✅' : '❌'
+    const status =
+      endpoint.status === 'ok'
+        ? formatLatency(endpoint.latencyMs)
+        : `${endpoint.status}${endpoint.error ? ` (${endpoint.error})` : ''}`
+    logger.info(
+      `    ${icon} ${endpoint.service.padEnd(serviceWidth)}  ${endpoint.remote.padEnd(remoteWidth)}  ${status}`
+    )
+  }
+
+  logger.info('  🗂️ Keyspaces:')
+  const keyspaceWidth = Math.max(
+    ...health.keyspaces.map(keyspace => keyspace.keyspace.length),
+    0
+  )
+  for (const keyspace of health.keyspaces) {
+    const name = keyspace.keyspace.padEnd(keyspaceWidth)
+    logger.info(
+      keyspace.reachable
+        ? `    ✅ ${name}  reachable in ${formatLatency(keyspace.latencyMs)}`
+        : `    ❌ ${name}  unreachable: ${keyspace.error}`
+    )
+  }
+
+  if (health.error) {
+    logger.info(`  ❌ ${health.error}`)
+  }
+}
+
+/**
+ * Check the connection to Couchbase and print readable diagnostics
+ * @param options Options for the check
+ * @returns Health of each bucket
+ */
+export async function health(options: {
+  buckets?: string[] // Default: COUCHBASE_BUCKET_NAME
+  debug?: boolean
+}): Promise<BucketHealth[]> {
+  const { debug = false } = options
+  const logger = new Logger(debug)
+
+  const clients =
+    options.buckets && options.buckets.length > 0
+      ? options.buckets.map(bucketName => getClient({ debug, bucketName }))
+      : [getClient({ debug })]
+
+  const results: BucketHealth[] = []
+  for (const client of clients) {
+    try {
+      const bucketHealth = await checkBucket(client, logger)
+      printBucketHealth(bucketHealth, logger)
+      results.push(bucketHealth)
+    } finally {
+      if (client.isClientConnected()) {
+        try {
+          await client.disconnect()
+        } catch (disconnectError) {
+          logger.error('❌ Error disconnecting:', disconnectError)
+        }
+      }
+    }
+  }
+
+  const unhealthy = results.filter(result => !result.healthy)
+  logger.info(
+    unhealthy.length === 0
+      ? '\n✅ Couchbase is healthy'
+      : `\n❌ Couchbase is unhealthy (${unhealthy.map(result => result.bucketName).join(', ')})`
+  )
+
+  return results
+}
@@ -1,7 +1,8 @@
 /**
  * Ingest Module
  *
- * Handles ingesting documents from the cache into Core
+ * Handles ingesting documents from the cache (or straight from Couchbase)
+ * into Core
  */
 
 import { ingestUsers, type UserIngestionSummary } from './ingest/users.js'
@@ -9,6 +10,9 @@ import {
   ingestPlaylists,
   type PlaylistIngestionSummary,
 } from './ingest/playlists.js'
+import { DEFAULT_RULES_FILE, IngestRules } from './ingest/rules.js'
+import type { IngestSource } from './ingest/sources.js'
+import { getClient, type Keyspace } from '../lib/couchbase.js'
 import { Logger } from '../lib/logger.js'
 
 export interface IngestOptions {
@@ -16,7 +20,13 @@ export interface IngestOptions {
   dryRun?: boolean
   pipeline?: 'users' | 'playlists' | 'all'
   file?: string
+  from?: IngestSource
+  ids?: string[] // Document IDs to read with from: 'couchbase'
+  prefixes?: string[] // Document ID prefixes to read with from: 'couchbase'
+  keyspace?: Keyspace // Keyspace to read with from: 'couchbase'
   concurrency?: number
+  rulesFile?: string // JSON file of skip/include rules (default: DEFAULT_RULES_FILE, see ingest/rules.ts)
+  refreshOkta?: boolean // Ignore Okta users cached by earlier runs
   debug?: boolean
 }
 
@@ -29,12 +39,46 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
     sourceDir = './tmp',
     dryRun = false,
     pipeline = 'all',
+    from = 'cache',
+    ids = [],
+    prefixes = [],
+    rulesFile = DEFAULT_RULES_FILE,
     debug = false,
   } = options
   const logger = new Logger(debug)
 
+  if (from === 'couchbase' && ids.length === 0 && prefixes.length === 0) {
+    throw new Error(
+      'Ingesting from Couchbase needs at least one document ID or ID prefix'
+    )
+  }
+  if (from === 'couchbase' && options.file) {
+    throw new Error('--file option can only be used when ingesting from cache')
+  }
+
+  const rules = await IngestRules.load(rulesFile)
+
+  // Options shared by both pipelines
+  const sourceOptions = {
+    from,
+    rules,
+    ...(from === 'couchbase' && { ids, prefixes }),
+    ...(from === 'couchbase' &&
+      options.keyspace && { keyspace: options.keyspace }),
+  }
+
   logger.info('🚀 Starting document ingestion...')
   logger.info(`📁 Source directory: ${sourceDir}`)
+  if (from === 'couchbase') {
+    logger.info('🔌 Reading documents straight from Couchbase')
+    if (ids.length > 0) {
+      logger.info(`🆔 Document IDs: ${ids.join(', ')}`)
+    }
+    if (prefixes.length > 0) {
+      logger.info(`🔎 ID prefixes: ${prefixes.join(', ')}`)
+    }
+  }
+  logger.info(`📋 Rules file: ${rulesFile}`)
   logger.info(`🔍 Dry run: ${dryRun ? 'Yes' : 'No'}`)
   logger.info(`🎯 Pipeline: ${pipeline}`)
 
@@ -47,8 +91,10 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
         userSummary = await ingestUsers({
           sourceDir,
           dryRun,
+          ...sourceOptions,
           ...(options.file && { file: options.file }),
           ...(options.concurrency && { concurrency: options.concurrency }),
+          ...(options.refreshOkta && { refreshOkta: true }),
           ...(options.debug !== undefined && { debug: options.debug }),
         })
         break
@@ -57,6 +103,7 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
         playlistSummary = await ingestPlaylists({
           sourceDir,
           dryRun,
+          ...sourceOptions,
           ...(options.file && { file: options.file }),
           ...(options.concurrency && { concurrency: options.concurrency }),
           ...(options.debug !== undefined && { debug: options.debug }),
@@ -72,12 +119,15 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
         userSummary = await ingestUsers({
           sourceDir,
           dryRun,
+          ...sourceOptions,
           ...(options.concurrency && { concurrency: options.concurrency }),
+          ...(options.refreshOkta && { refreshOkta: true }),
           ...(options.debug !== undefined && { debug: options.debug }),
         })
         playlistSummary = await ingestPlaylists({
           sourceDir,
           dryRun,
+          ...sourceOptions,
           ...(options.concurrency && { concurrency: options.concurrency }),
           ...(options.debug !== undefined && { debug: options.debug }),
         })
@@ -98,6 +148,14 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
         `✅ Successfully processed: ${userSummary.successCount} users`
       )
       logger.info(`❌ Failed to process: ${userSummary.errorCount} users`)
+      if (userSummary.skippedCount > 0) {
+        logger.info(`⏭️ Skipped by rules: ${userSummary.skippedCount} users`)
+      }
+      if (userSummary.lossyCasCount > 0) {
+        logger.info(
+          `⚠️ Cached with a lossy CAS: ${userSummary.lossyCasCount} users (rebuild the cache to store exact CAS values)`
+        )
+      }
       logger.info(`📊 Total files: ${userSummary.totalFiles}`)
     }
 
@@ -117,6 +175,16 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
       logger.info(
         `❌ Failed to process: ${playlistSummary.errorCount} playlists`
       )
+      if (playlistSummary.skippedCount > 0) {
+        logger.info(
+          `⏭️ Skipped by rules: ${playlistSummary.skippedCount} playlists`
+        )
+      }
+      if (playlistSummary.lossyCasCount > 0) {
+        logger.info(
+          `⚠️ Cached with a lossy CAS: ${playlistSummary.lossyCasCount} playlists (rebuild the cache to store exact CAS values)`
+        )
+      }
       logger.info(`📊 Total files: ${playlistSummary.totalFiles}`)
       logger.info(
         `🎵 Total playlist items: ${playlistSummary.analysis.totalItems}`
@@ -164,9 +232,19 @@ export async function ingest(options: IngestOptions = {}): Promise<void> {
       }
     }
 
+    rules.report(logger)
+
     logger.info('\n🎉 Ingestion completed successfully!')
   } catch (error) {
     logger.error('❌ Ingestion failed:', error)
     throw error
+  } finally {
+    if (from === 'couchbase') {
+      try {
+        await getClient({ debug }).disconnect()
+      } catch (disconnectError) {
+        logger.error('❌ Error disconnecting:', disconnectError)
+      }
+    }
   }
 }
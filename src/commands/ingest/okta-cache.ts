@@ -0,0 +1,172 @@
+/**
+ * Okta User Cache
+ *
+ * Keeps the Okta users the users pipeline looked up in the local users
+ * database, so re-runs (e.g. after a Firebase outage) reuse them instead of
+ * searching Okta again. Users not in the cache are resolved from the
+ * okta-sync snapshot when it has exactly one match. Cache entries and
+ * snapshots older than the TTL are searched again, and --refresh-okta
+ * ignores both for a whole run
+ */
+
+import { prismaUsers } from '../../lib/prisma/users/client.js'
+import { Logger } from '../../lib/logger.js'
+import { getRetryOptions, withRetry } from '../../lib/retry.js'
+import type { OktaUser } from '../../lib/okta.js'
+import type { OktaUserData } from './types.js'
+
+type OktaEmail = OktaUserData['primaryEmailObject']
+
+export interface OktaUserCacheStats {
+  hits: number // Lookups answered from the cache
+  snapshotHits: number // Lookups answered from the okta-sync snapshot
+  misses: number // Lookups that had to search Okta
+}
+
+/**
+ * Read the emails stored with a snapshot user
+ * @param emails JSON array of { type, status, value }
+ * @returns Emails, or an empty array if they can't be read
+ */
+function parseEmails(emails: string): OktaEmail[] {
+  try {
+    const parsed: unknown = JSON.parse(emails)
+    return Array.isArray(parsed) ? (parsed as OktaEmail[]) : []
+  } catch {
+    return []
+  }
+}
+
+export class OktaUserCache {
+  private ttlMs: number
+  private refresh: boolean
+  private logger: Logger
+  private stats: OktaUserCacheStats = { hits: 0, snapshotHits: 0, misses: 0 }
+
+  /**
+   * @param options TTL in hours of cache entries and the snapshot (0 = never
+   * reuse either), and whether to ignore both and search Okta for every user
+   * @param logger Logger instance
+   */
+  constructor(options: { ttlHours: number; refresh: boolean }, logger: Logger) {
+    this.ttlMs = options.ttlHours * 60 * 60 * 1000
+    this.refresh = options.refresh
+    this.logger = logger
+  }
+
+  /**
+   * Get a cached Okta user that is still fresh, or else the user's entry in
+   * the okta-sync snapshot
+   * The cache only saves Okta requests, so a failed read is a miss
+   * @param ssoGuid SSO GUID the user was searched by
+   * @returns Okta user data, or null if it has to be searched for
+   */
+  async get(ssoGuid: string): Promise<OktaUserData | null> {
+    if (this.refresh || this.ttlMs === 0) {
+      this.stats.misses++
+      return null
+    }
+
+    try {
+      const cached = await prismaUsers.oktaUser.findUnique({
+        where: { ssoGuid },
+      })
+      if (cached && Date.now() - cached.fetchedAt.getTime() <= this.ttlMs) {
+        this.stats.hits++
+        return {
+          id: cached.oktaId,
+          firstName: cached.firstName ?? undefined,
+          lastName: cached.lastName ?? undefined,
+          status: cached.status as OktaUser['status'],
+          primaryEmail: cached.primaryEmail,
+          primaryEmailObject: {
+            type: 'PRIMARY',
+            status: cached.primaryEmailStatus as OktaEmail['status'],
+            value: cached.primaryEmail,
+          },
+          theKeySsoGuid: ssoGuid,
+        }
+      }
+
+      const snapshotUser = await this.getFromSnapshot(ssoGuid)
+      this.stats[snapshotUser ? 'snapshotHits' : 'misses']++
+      return snapshotUser
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not read cached Okta user ${ssoGuid}:`, error)
+      this.stats.misses++
+      return null
+    }
+  }
+
+  /**
+   * Resolve an SSO GUID from the okta-sync snapshot (internal method)
+   * Anything the search would report as an error - no match, several matches
+   * or no primary email - is left to the search, and so is a snapshot older
+   * than the TTL
+   */
+  private async getFromSnapshot(ssoGuid: string): Promise<OktaUserData | null> {
+    const matches = await prismaUsers.oktaSnapshotUser.findMany({
+      where: {
+        theKeyGuid: ssoGuid,
+        syncedAt: { gte: new Date(Date.now() - this.ttlMs) },
+      },
+      take: 2,
+    })
+    const [match] = matches
+    if (!match || matches.length > 1) {
+      return null
+    }
+    const primaryEmail = parseEmails(match.emails).find(
+      email => email.type === 'PRIMARY'
+    )
+    if (!primaryEmail) {
+      return null
+    }
+    return {
+      id: match.oktaId,
+      firstName: match.firstName ?? undefined,
+      lastName: match.lastName ?? undefined,
+      status: match.status as OktaUser['status'],
+      primaryEmail: primaryEmail.value,
+      primaryEmailObject: primaryEmail,
+      theKeySsoGuid: match.theKeyGuid,
+    }
+  }
+
+  /**
+   * Save an Okta user fetched from Okta
+   * @param ssoGuid SSO GUID the user was searched by
+   * @param data Okta user data
+   */
+  async set(ssoGuid: string, data: OktaUserData): Promise<void> {
+    const entry = {
+      oktaId: data.id,
+      firstName: data.firstName ?? null,
+      lastName: data.lastName ?? null,
+      status: data.status,
+      primaryEmail: data.primaryEmail,
+      primaryEmailStatus: data.primaryEmailObject.status,
+      fetchedAt: new Date(),
+    }
+    try {
+      await withRetry(
+        () =>
+          prismaUsers.oktaUser.upsert({
+            where: { ssoGuid },
+            create: { ssoGuid, ...entry },
+            update: entry,
+          }),
+        getRetryOptions('prisma', this.logger, 'Prisma')
+      )
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not cache Okta user ${ssoGuid}:`, error)
+    }
+  }
+
+  /**
+   * Get how many lookups the cache answered
+   */
+  getStats(): OktaUserCacheStats {
+    return { ...this.stats }
+  }
+}
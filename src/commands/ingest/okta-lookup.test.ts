@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test'
+import {
+  startFakeOktaServer,
+  type FakeOktaServer,
+} from '../../lib/fake-okta-server.js'
+import { Logger } from '../../lib/logger.js'
+import { OktaClient, type OktaUser } from '../../lib/okta.js'
+import { configureRetryPolicy } from '../../lib/retry.js'
+import { lookupOktaUser } from './okta-lookup.js'
+import type { OktaUserData } from './types.js'
+
+const logger = new Logger(false)
+
+function oktaUser(id: string, theKeyGuid: string): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    activated: null,
+    created: new Date(0).toISOString(),
+    lastLogin: null,
+    lastUpdated: new Date(0).toISOString(),
+    passwordChanged: null,
+    statusChanged: null,
+    transitioningToStatus: null,
+    realmId: 'realm',
+    profile: { firstName: 'Ada', lastName: 'Lovelace', theKeyGuid },
+    credentials: {
+      emails: [{ type: 'PRIMARY', status: 'VERIFIED', value: `${id}@x.org` }],
+    },
+  }
+}
+
+/**
+ * Stand-in for the Okta user cache that keeps users in memory
+ */
+function createMemoryCache(): {
+  get(ssoGuid: string): Promise<OktaUserData | null>
+  set(ssoGuid: string, data: OktaUserData): Promise<void>
+  users: Map<string, OktaUserData>
+} {
+  const users: Map<string, OktaUserData> = new Map()
+  return {
+    get: async ssoGuid => users.get(ssoGuid) ?? null,
+    set: async (ssoGuid, data) => {
+      users.set(ssoGuid, data)
+    },
+    users,
+  }
+}
+
+describe('lookupOktaUser', () => {
+  let server: FakeOktaServer
+  let sourceDir: string
+  let tokenCount = 0
+
+  before(async () => {
+    // One retry, waiting only as long as the fake's rate limit reset asks
+    configureRetryPolicy({ maxAttempts: 2, baseDelayMs: 0, jitter: 0 })
+    server = await startFakeOktaServer({
+      users: [
+        oktaUser('00u1', 'guid-1'),
+        oktaUser('00u2', 'guid-dup'),
+        oktaUser('00u3', 'guid-dup'),
+      ],
+      notFound: ['guid-missing'],
+      rateLimited: ['guid-limited'],
+      rateLimitWindowMs: 1000,
+    })
+  })
+
+  after(async () => {
+    await server.close()
+  })
+
+  beforeEach(async () => {
+    sourceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'okta-lookup-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(sourceDir, { recursive: true, force: true })
+  })
+
+  // A client with its own token, so each test gets its own rate limit window
+  const createClient = (): OktaClient =>
+    new OktaClient(
+      { baseUrl: server.url, tokens: [`fake-${++tokenCount}`] },
+      logger
+    )
+
+  const lookup = (
+    theKeySsoGuid: string,
+    cache = createMemoryCache(),
+    okta = createClient()
+  ) =>
+    lookupOktaUser(
+      { email: 'ada@x.org', theKeySsoGuid },
+      `user/${theKeySsoGuid}.json`,
+      sourceDir,
+      okta,
+      cache,
+      logger
+    )
+
+  const readErrorFile = async (theKeySsoGuid: string) =>
+    JSON.parse(
+      await fs.readFile(
+        path.join(sourceDir, 'errors', 'users', `${theKeySsoGuid}.json`),
+        'utf-8'
+      )
+    ) as { error: string; data: unknown }
+
+  it('caches the user found for a theKeyGuid', async () => {
+    const cache = createMemoryCache()
+    const user = await lookup(' guid-1 ', cache)
+
+    assert.equal(user?.id, '00u1')
+    assert.equal(user?.primaryEmail, '00u1@x.org')
+    assert.equal(cache.users.get('guid-1')?.id, '00u1')
+  })
+
+  it('does not search Okta for cached users', async () => {
+    const cache = createMemoryCache()
+    const okta = createClient()
+    await lookup('guid-1', cache, okta)
+    const requests = server.requests.length
+
+    assert.equal((await lookup('guid-1', cache, okta))?.id, '00u1')
+    assert.equal(server.requests.length, requests)
+  })
+
+  it('writes an error file for a 404', async () => {
+    assert.equal(await lookup('guid-missing'), null)
+    assert.equal((await readErrorFile('guid-missing')).error, '404')
+  })
+
+  it('retries a 429 after x-rate-limit-reset, then writes an error file', async () => {
+    const requests = server.requests.length
+    assert.equal(await lookup('guid-limited'), null)
+
+    const limited = server.requests.slice(requests)
+    assert.deepEqual(
+      limited.map(request => request.status),
+      [429, 429]
+    )
+    assert.equal((await readErrorFile('guid-limited')).error, '429')
+  })
+
+  it('writes an error file when several users share the theKeyGuid', async () => {
+    const cache = createMemoryCache()
+    assert.equal(await lookup('guid-dup', cache), null)
+    assert.equal(
+      (await readErrorFile('guid-dup')).error,
+      'Multiple users found in Okta response'
+    )
+    assert.equal(cache.users.size, 0)
+  })
+
+  it('writes an error file when no user has the theKeyGuid', async () => {
+    assert.equal(await lookup('guid-none'), null)
+    assert.match(
+      (await readErrorFile('guid-none')).error,
+      /No users found in Okta response/
+    )
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Okta Lookup
+ *
+ * Resolves the Okta user for a user document's SSO GUID: from the Okta user
+ * cache (or the okta-sync snapshot) when it has the user, otherwise by
+ * searching Okta. Every lookup that fails is written to errors/users
+ */
+
+import { writeErrorToFile } from '../../lib/error-handler.js'
+import { Logger } from '../../lib/logger.js'
+import type { OktaClient } from '../../lib/okta.js'
+import type { OktaUserCache } from './okta-cache.js'
+import type { OktaUserData, UserProfile } from './types.js'
+
+/**
+ * Look up the Okta user for a user document
+ * @param userData Validated user profile
+ * @param filePath Path of the user document, used to name error files
+ * @param sourceDir Base source directory for error files
+ * @param okta Okta client that searches for users
+ * @param oktaCache Okta users looked up on earlier runs
+ * @returns Okta user data, or null if the lookup failed (the error file has
+ * already been written)
+ */
+export async function lookupOktaUser(
+  userData: Pick<UserProfile, 'email' | 'theKeySsoGuid'>,
+  filePath: string,
+  sourceDir: string,
+  okta: OktaClient,
+  oktaCache: Pick<OktaUserCache, 'get' | 'set'>,
+  logger: Logger
+): Promise<OktaUserData | null> {
+  // Search Okta by SSO GUID, unless an earlier run or okta-sync already did
+  const ssoGuid = userData.theKeySsoGuid.trim()
+  const cached = await oktaCache.get(ssoGuid)
+  if (cached) {
+    logger.log(
+      `💾 Using cached Okta user data for email ${userData.email} and ssoGuid ${ssoGuid}`
+    )
+    return cached
+  }
+
+  try {
+    const searchResult = await okta.searchByTheKeyGuid(ssoGuid)
+
+    if (!searchResult.ok) {
+      if (searchResult.status === 404) {
+        logger.warn(
+          `⚠️ User with email ${userData.email} and ssoGuid ${userData.theKeySsoGuid} not found in Okta`
+        )
+      } else {
+        logger.error(
+          `❌ Okta API error (${searchResult.status}) for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}: ${searchResult.body}`
+        )
+      }
+      await writeErrorToFile(
+        sourceDir,
+        'users',
+        filePath,
+        searchResult.status,
+        logger,
+        userData
+      )
+      return null
+    }
+
+    // The search returns an array of users
+    const responseData = searchResult.users
+
+    if (!responseData || responseData.length === 0) {
+      logger.warn(`⚠️ No users found in Okta for email ${userData.email}`)
+      await writeErrorToFile(
+        sourceDir,
+        'users',
+        filePath,
+        new Error(
+          `No users found in Okta response for email ${userData.email}: ${JSON.stringify(responseData)}`
+        ),
+        logger,
+        userData
+      )
+      return null
+    }
+
+    if (responseData.length > 1) {
+      logger.warn(
+        `⚠️ Multiple users found in Okta for SSO GUID ${userData.theKeySsoGuid}`
+      )
+      await writeErrorToFile(
+        sourceDir,
+        'users',
+        filePath,
+        new Error('Multiple users found in Okta response'),
+        logger,
+        userData
+      )
+      return null
+    }
+
+    // Get the first user from the array (should only be one for exact SSO match)
+    const resData = responseData[0]
+
+    if (!resData) {
+      logger.warn(
+        `⚠️ No user data in Okta response for email ${userData.email}`
+      )
+      await writeErrorToFile(
+        sourceDir,
+        'users',
+        filePath,
+        new Error('No user data in Okta response'),
+        logger,
+        userData
+      )
+      return null
+    }
+
+    const emails = resData.credentials?.emails
+    const primaryEmail = resData.credentials?.emails?.find(
+      email => email.type === 'PRIMARY'
+    )
+    if (!primaryEmail) {
+      logger.warn(
+        `⚠️ No primary email found in Okta response for email ${userData.email}`
+      )
+      await writeErrorToFile(
+        sourceDir,
+        'users',
+        filePath,
+        new Error('No primary email found in Okta response'),
+        logger,
+        userData
+      )
+      return null
+    }
+    const oktaUserData: OktaUserData = {
+      id: resData.id,
+      firstName: resData.profile.firstName,
+      lastName: resData.profile.lastName,
+      status: resData.status,
+      primaryEmail: primaryEmail.value,
+      primaryEmailObject: primaryEmail,
+      theKeySsoGuid: resData.profile.theKeyGuid,
+    }
+    await oktaCache.set(ssoGuid, oktaUserData)
+
+    logger.info(
+      `✅ Fetched Okta user data for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}:`,
+      {
+        id: oktaUserData.id,
+        email: userData.email,
+        status: oktaUserData.status,
+        firstName: oktaUserData.firstName,
+        lastName: oktaUserData.lastName,
+        primaryEmail: oktaUserData.primaryEmail,
+        emails: emails?.map(email => email.value),
+      }
+    )
+    return oktaUserData
+  } catch (error) {
+    logger.error(
+      `❌ Error fetching user from Okta API for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}:`,
+      error
+    )
+    await writeErrorToFile(
+      sourceDir,
+      'users',
+      filePath,
+      error,
+      logger,
+      userData
+    )
+    return null
+  }
+}
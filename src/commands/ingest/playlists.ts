@@ -4,7 +4,6 @@
  * Handles ingesting playlist documents from the cache into Core
  */
 
-import { promises as fs } from 'fs'
 import path from 'path'
 import { z } from 'zod'
 import { v4 as uuidv4 } from 'uuid'
@@ -17,8 +16,26 @@ import {
   writeErrorToFile,
   clearErrorsDirectory,
 } from '../../lib/error-handler.js'
+import { CacheIndex, resolveCachedFile } from '../../lib/cache-index.js'
+import { openCacheReader, type CacheReader } from '../../lib/cache-reader.js'
+import { openCacheStore, type CacheStore } from '../../lib/cache-store.js'
+import { getClient, type Keyspace } from '../../lib/couchbase.js'
+import {
+  getCachedDocuments,
+  getCouchbaseDocuments,
+  type IngestSource,
+} from './sources.js'
+import { IngestRules } from './rules.js'
+import {
+  CasSchema,
+  isLossyCas,
+  isSkippedDocument,
+  type IngestDocument,
+  type SkippedDocument,
+} from './types.js'
 import cliProgress from 'cli-progress'
 import { Logger } from '../../lib/logger.js'
+import { getRetryOptions, withRetry } from '../../lib/retry.js'
 
 // Zod schemas for playlist data validation
 const PlaylistItemSchema = z.object({
@@ -57,7 +74,7 @@ const PlaylistProfileSchema = z.object({
 
 const PlaylistDocumentSchema = z.object({
   'JFM-profiles': PlaylistProfileSchema,
-  cas: z.number(),
+  cas: CasSchema,
 })
 
 // Inferred types from Zod schemas
@@ -82,7 +99,7 @@ type ProcessedPlaylist = {
   skippedItems: ProcessedPlaylistItem[]
   createdAt: Date
   updatedAt: Date
-  cas: number
+  cas: string
   type: 'playlist'
 }
 
@@ -192,19 +209,37 @@ async function validateAndTransformPlaylist(
 }
 
 /**
- * Process a single playlist JSON file
- * @param filePath Path to the playlist JSON file
- * @returns Processed playlist data or null if processing failed
+ * Process a single playlist document
+ * @param document Playlist document (a cached file or read from Couchbase)
+ * @param rules Ingestion rules that skip or force-include documents
+ * @param lossyCasFiles Collects the documents cached with a lossy CAS
+ * @returns Processed playlist data, the skip reason if a rule skipped it, or
+ * null if processing failed
  */
 async function processPlaylistFile(
-  filePath: string,
+  document: IngestDocument,
   sourceDir: string,
   dryRun: boolean,
+  rules: IngestRules,
+  lossyCasFiles: string[],
   logger: Logger
-): Promise<ProcessedPlaylist | DeletedPlaylist | null> {
+): Promise<ProcessedPlaylist | DeletedPlaylist | SkippedDocument | null> {
+  const filePath = document.name
   try {
-    const fileContent = await fs.readFile(filePath, 'utf8')
-    const rawData = JSON.parse(fileContent)
+    const rawData = (await document.read()) as {
+      cas?: unknown
+      'JFM-profiles'?: { _deleted?: boolean }
+    } | null
+
+    if (isLossyCas(rawData?.cas)) {
+      lossyCasFiles.push(filePath)
+    }
+
+    const rule = rules.evaluate(document, rawData)
+    if (rule?.action === 'skip') {
+      logger.log(`⏭️ Skipping ${filePath}: ${rule.reason}`)
+      return { type: 'skipped', reason: rule.reason }
+    }
     if (rawData?.['JFM-profiles']?._deleted === true) {
       return {
         type: 'deleted',
@@ -299,11 +334,15 @@ async function processPlaylistFile(
         // Don't update slug or createdAt on existing playlists
       }
 
-      await prismaApiMedia.playlist.upsert({
-        where: { id: processedPlaylist.id },
-        update: playListToUpdate,
-        create: playListToCreate,
-      })
+      await withRetry(
+        () =>
+          prismaApiMedia.playlist.upsert({
+            where: { id: processedPlaylist.id },
+            update: playListToUpdate,
+            create: playListToCreate,
+          }),
+        getRetryOptions('prisma', logger, 'Prisma')
+      )
 
       // Save playlist items
       if (processedPlaylist.items.length > 0) {
@@ -376,17 +415,21 @@ async function processPlaylistFile(
               },
             }
 
-            await prismaApiMedia.playlistItem.upsert({
-              where: { id: itemId },
-              update: {
-                order: item.order,
-                updatedAt: item.updatedAt,
-                VideoVariant: {
-                  connect: { id: videoVariant.id },
-                },
-              },
-              create: playlistItemToSave,
-            })
+            await withRetry(
+              () =>
+                prismaApiMedia.playlistItem.upsert({
+                  where: { id: itemId },
+                  update: {
+                    order: item.order,
+                    updatedAt: item.updatedAt,
+                    VideoVariant: {
+                      connect: { id: videoVariant.id },
+                    },
+                  },
+                  create: playlistItemToSave,
+                }),
+              getRetryOptions('prisma', logger, 'Prisma')
+            )
             savedItems.push(item)
           } catch (itemError) {
             logger.warn(
@@ -440,8 +483,7 @@ async function processPlaylistFile(
     // Try to read rawData if available, otherwise use undefined
     let rawData: unknown
     try {
-      const fileContent = await fs.readFile(filePath, 'utf8')
-      rawData = JSON.parse(fileContent)
+      rawData = await document.read()
     } catch {
       rawData = undefined
     }
@@ -459,16 +501,32 @@ async function processPlaylistFile(
 
 /**
  * Get all playlist JSON files from the playlist directory
- * @param playlistDir Path to the playlist directory
- * @param fileName Optional specific file name to filter by
+ * @param store Cache store of the source directory
+ * @param reader Cache reader for the source directory
+ * @param fileName Optional specific file name (or original document ID) to filter by
  * @returns Array of file paths
  */
 async function getPlaylistFiles(
-  playlistDir: string,
+  store: CacheStore,
+  reader: CacheReader,
   logger: Logger,
   fileName?: string
 ): Promise<string[]> {
+  const playlistDir = `${store.location}/pl`
   try {
+    // Look the file up by its original document ID (e.g. "pl_123") first
+    if (fileName) {
+      const indexedFile = await resolveCachedFile(
+        store,
+        fileName,
+        ['pl'],
+        logger
+      )
+      if (indexedFile) {
+        return [indexedFile]
+      }
+    }
+
     // Normalize fileName - ensure it has .json extension if provided
     const normalizedFileName = fileName
       ? fileName.endsWith('.json')
@@ -476,16 +534,14 @@ async function getPlaylistFiles(
         : `${fileName}.json`
       : undefined
 
-    const files = await fs.readdir(playlistDir)
-    return files
-      .filter(file => {
-        if (!file.endsWith('.json')) return false
-        if (normalizedFileName) {
-          return file === normalizedFileName
-        }
-        return true
-      })
-      .map(file => path.join(playlistDir, file))
+    const files = await reader.list('pl')
+    return files.filter(file => {
+      if (!file.endsWith('.json')) return false
+      if (normalizedFileName) {
+        return path.basename(file) === normalizedFileName
+      }
+      return true
+    })
   } catch (error) {
     logger.warn(`⚠️ Error reading playlist directory ${playlistDir}:`, error)
     return []
@@ -549,6 +605,8 @@ function analyzePlaylistItems(playlists: ProcessedPlaylist[]): {
 export interface PlaylistIngestionSummary {
   successCount: number
   errorCount: number
+  skippedCount: number // Skipped by an ingestion rule
+  lossyCasCount: number // Cached with a CAS rounded by a JSON number
   totalFiles: number
   analysis: ReturnType<typeof analyzePlaylistItems>
   processedPlaylists: ProcessedPlaylist[]
@@ -557,7 +615,7 @@ export interface PlaylistIngestionSummary {
 }
 
 /**
- * Ingest playlists from cache directory
+ * Ingest playlists from cache directory, or straight from Couchbase
  * @param options Options for playlist ingestion
  * @returns Summary of playlist ingestion
  */
@@ -566,7 +624,13 @@ export async function ingestPlaylists(
     sourceDir?: string
     dryRun?: boolean
     file?: string
+    from?: IngestSource
+    ids?: string[]
+    prefixes?: string[]
+    keyspace?: Keyspace
     concurrency?: number
+    rules?: IngestRules
+    clearErrors?: boolean // Clear error files from earlier runs first (default: true)
     debug?: boolean
   } = {}
 ): Promise<PlaylistIngestionSummary | null> {
@@ -574,14 +638,24 @@ export async function ingestPlaylists(
     sourceDir = './tmp',
     dryRun = false,
     file,
+    from = 'cache',
+    ids = [],
+    prefixes = [],
     concurrency = 10,
+    rules = new IngestRules([]),
+    clearErrors = true,
     debug = false,
   } = options
   const logger = new Logger(debug)
-  const playlistDir = path.join(sourceDir, 'pl')
+  const store = openCacheStore(sourceDir)
+  const playlistDir = `${store.location}/pl`
 
   logger.info('🎵 Starting playlist ingestion pipeline...')
-  logger.info(`📁 Source directory: ${playlistDir}`)
+  if (from === 'couchbase') {
+    logger.info('🔌 Source: Couchbase (bypassing the cache)')
+  } else {
+    logger.info(`📁 Source directory: ${playlistDir}`)
+  }
   logger.info(`🔍 Dry run: ${dryRun ? 'Yes' : 'No'}`)
   logger.info(`⚡ Concurrency: ${concurrency}`)
   if (file) {
@@ -589,21 +663,38 @@ export async function ingestPlaylists(
   }
 
   // Clear errors directory at the beginning
-  await clearErrorsDirectory(sourceDir, 'playlists', logger)
-  await clearErrorsDirectory(sourceDir, 'playListItems', logger)
-
-  // Check if playlist directory exists
-  try {
-    await fs.access(playlistDir)
-  } catch {
-    logger.error(`❌ Playlist directory does not exist: ${playlistDir}`)
-    return null
+  if (clearErrors) {
+    await clearErrorsDirectory(sourceDir, 'playlists', logger)
+    await clearErrorsDirectory(sourceDir, 'playListItems', logger)
   }
 
-  // Get all playlist files
-  const playlistFiles = await getPlaylistFiles(playlistDir, logger, file)
+  let playlistFiles: IngestDocument[]
+  if (from === 'couchbase') {
+    playlistFiles = await getCouchbaseDocuments(getClient({ debug }), logger, {
+      ids,
+      prefixes,
+      folders: ['pl'],
+      ...(options.keyspace && { keyspace: options.keyspace }),
+    })
+  } else {
+    // Check if playlist directory (or its archive segment) exists
+    const reader = openCacheReader(store, logger)
+    if (!(await reader.hasFolder('pl'))) {
+      logger.error(`❌ Playlist directory does not exist: ${playlistDir}`)
+      return null
+    }
+
+    // Get all playlist files
+    playlistFiles = getCachedDocuments(
+      reader,
+      await getPlaylistFiles(store, reader, logger, file),
+      await CacheIndex.load(store, logger)
+    )
+  }
   if (playlistFiles.length === 0) {
-    if (file) {
+    if (from === 'couchbase') {
+      logger.info('ℹ️ No playlist documents found in Couchbase')
+    } else if (file) {
       logger.info(`ℹ️ File ${file} not found in playlist directory`)
     } else {
       logger.info('ℹ️ No playlist files found in directory')
@@ -633,18 +724,29 @@ export async function ingestPlaylists(
   const processedPlaylists: ProcessedPlaylist[] = []
   let successCount = 0
   let errorCount = 0
+  let skippedCount = 0
+  const lossyCasFiles: string[] = []
 
   for (let i = 0; i < playlistFiles.length; i += concurrency) {
     const batch = playlistFiles.slice(i, i + concurrency)
 
     const results = await Promise.allSettled(
-      batch.map(filePath =>
-        processPlaylistFile(filePath, sourceDir, dryRun, logger)
+      batch.map(document =>
+        processPlaylistFile(
+          document,
+          sourceDir,
+          dryRun,
+          rules,
+          lossyCasFiles,
+          logger
+        )
       )
     )
 
     for (const result of results) {
-      if (result.status === 'fulfilled' && result.value) {
+      if (result.status === 'fulfilled' && isSkippedDocument(result.value)) {
+        skippedCount++
+      } else if (result.status === 'fulfilled' && result.value) {
         if (result.value.type === 'playlist') {
           processedPlaylists.push(result.value)
         }
@@ -653,12 +755,12 @@ export async function ingestPlaylists(
         errorCount++
       }
       if (progressBar) {
-        progressBar.update(successCount + errorCount)
+        progressBar.update(successCount + errorCount + skippedCount)
       }
     }
 
     if (!progressBar && !debug) {
-      const total = successCount + errorCount
+      const total = successCount + errorCount + skippedCount
       const pct = ((total / playlistFiles.length) * 100).toFixed(1)
       logger.info(
         `🎵 Ingesting playlists: ${total}/${playlistFiles.length} (${pct}%)`
@@ -692,6 +794,8 @@ export async function ingestPlaylists(
   return {
     successCount,
     errorCount,
+    skippedCount,
+    lossyCasCount: lossyCasFiles.length,
     totalFiles: playlistFiles.length,
     analysis,
     processedPlaylists,
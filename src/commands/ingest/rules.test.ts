@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it } from 'node:test'
+import { DEFAULT_RULES_FILE, IngestRules } from './rules.js'
+import type { IngestDocument } from './types.js'
+
+function userDocument(
+  id: string,
+  profile: Record<string, unknown>,
+  cas: unknown = '1566300870055755839'
+): { document: IngestDocument; rawData: unknown } {
+  const rawData = { cas, 'JFM-profiles': profile }
+  return {
+    document: { id, name: `user/${id}.json`, read: async () => rawData },
+    rawData,
+  }
+}
+
+describe('IngestRules', () => {
+  it('matches no document without rules', () => {
+    const { document, rawData } = userDocument('user_1', { owner: 'a' })
+    assert.equal(new IngestRules([]).evaluate(document, rawData), null)
+  })
+
+  it('matches CAS values as exact strings', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'bad', cas: '1566300870055755839' },
+    ])
+    const exact = userDocument('user_1', {}, '1566300870055755839')
+    const rounded = userDocument(
+      'user_2',
+      {},
+      JSON.parse('1566300870055755839') as number
+    )
+    const other = userDocument('user_3', {}, '1566300870055755840')
+
+    assert.equal(rules.evaluate(exact.document, exact.rawData)?.reason, 'bad')
+    assert.equal(rules.evaluate(rounded.document, rounded.rawData), null)
+    assert.equal(rules.evaluate(other.document, other.rawData), null)
+  })
+
+  it('matches lossy CAS values against exact and rounded CAS values', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'rounded', lossyCas: '1566300870055755800' },
+    ])
+    const exact = userDocument('user_1', {}, '1566300870055755839')
+    const rounded = userDocument('user_2', {}, 1566300870055755800)
+    const other = userDocument('user_3', {}, '1566300870055756839')
+
+    assert.equal(
+      rules.evaluate(exact.document, exact.rawData)?.reason,
+      'rounded'
+    )
+    assert.equal(
+      rules.evaluate(rounded.document, rounded.rawData)?.reason,
+      'rounded'
+    )
+    assert.equal(rules.evaluate(other.document, other.rawData), null)
+  })
+
+  it('skips the known-bad profiles with the default rules file', async () => {
+    assert.equal(
+      DEFAULT_RULES_FILE,
+      path.resolve(import.meta.dirname, '../../../ingest-rules.json')
+    )
+    const rules = await IngestRules.load(DEFAULT_RULES_FILE)
+    const { document, rawData } = userDocument(
+      'user_1',
+      {},
+      '1687279660005064703'
+    )
+    assert.equal(rules.evaluate(document, rawData)?.action, 'skip')
+  })
+
+  it('fails loudly when the rules file is missing', async () => {
+    await assert.rejects(
+      IngestRules.load('./does-not-exist.json'),
+      /Could not read rules file/
+    )
+  })
+
+  it('needs every field of a rule to match', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'both', owner: 'owner-1', ssoGuid: 'guid-1' },
+    ])
+    const both = userDocument('user_1', {
+      owner: 'owner-1',
+      theKeySsoGuid: ' guid-1 ',
+    })
+    const ownerOnly = userDocument('user_2', {
+      owner: 'owner-1',
+      theKeySsoGuid: 'guid-2',
+    })
+
+    assert.equal(rules.evaluate(both.document, both.rawData)?.reason, 'both')
+    assert.equal(rules.evaluate(ownerOnly.document, ownerOnly.rawData), null)
+  })
+
+  it('compares emails case-insensitively', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'test user', email: 'Test@Example.com' },
+    ])
+    const { document, rawData } = userDocument('user_1', {
+      email: 'TEST@example.COM',
+    })
+    assert.equal(rules.evaluate(document, rawData)?.reason, 'test user')
+  })
+
+  it('lets include rules win over skip rules', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'owner skipped', owner: 'owner-1' },
+      { action: 'include', reason: 'carved out', id: 'user_2' },
+    ])
+    const skipped = userDocument('user_1', { owner: 'owner-1' })
+    const included = userDocument('user_2', { owner: 'owner-1' })
+
+    assert.equal(
+      rules.evaluate(skipped.document, skipped.rawData)?.action,
+      'skip'
+    )
+    assert.equal(
+      rules.evaluate(included.document, included.rawData)?.action,
+      'include'
+    )
+  })
+
+  it('reads documents that fail validation', () => {
+    const rules = new IngestRules([
+      { action: 'skip', reason: 'by id', id: 'user_1' },
+    ])
+    const document: IngestDocument = {
+      id: 'user_1',
+      name: 'user/1.json',
+      read: async () => 'not an object',
+    }
+    assert.equal(rules.evaluate(document, 'not an object')?.reason, 'by id')
+  })
+
+  it('loads and validates rules files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rules-'))
+    try {
+      const valid = path.join(dir, 'valid.json')
+      await fs.writeFile(
+        valid,
+        JSON.stringify({
+          rules: [{ action: 'skip', reason: 'bad', cas: '123' }],
+        })
+      )
+      const rules = await IngestRules.load(valid)
+      const { document, rawData } = userDocument('user_1', {}, '123')
+      assert.equal(rules.evaluate(document, rawData)?.reason, 'bad')
+
+      const notJson = path.join(dir, 'not-json.json')
+      await fs.writeFile(notJson, '{ "rules": [ }')
+      await assert.rejects(
+        IngestRules.load(notJson),
+        new RegExp(`Invalid rules file ${notJson}: .*JSON`)
+      )
+
+      const numericCas = path.join(dir, 'numeric-cas.json')
+      await fs.writeFile(
+        numericCas,
+        '{ "rules": [{ "action": "skip", "reason": "bad", "cas": 123 }] }'
+      )
+      await assert.rejects(IngestRules.load(numericCas), /Invalid rules file/)
+
+      const noMatcher = path.join(dir, 'no-matcher.json')
+      await fs.writeFile(
+        noMatcher,
+        JSON.stringify({ rules: [{ action: 'skip', reason: 'everything' }] })
+      )
+      await assert.rejects(IngestRules.load(noMatcher), /at least one of/)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Ingestion Rules
+ *
+ * Skip or force-include documents in the ingestion pipelines, from a JSON
+ * rules file (the ingest-rules.json next to package.json unless --rules says
+ * otherwise):
+ *
+ *   { "rules": [{ "action": "skip", "cas": "1566300870055755839",
+ *                 "reason": "Duplicate profile" }] }
+ *
+ * A rule matches documents by Couchbase ID, owner, email, SSO GUID and/or
+ * CAS - every field it gives must match - and says why. Include rules win
+ * over skip rules, so a document can be carved out of a broader skip. CAS
+ * values are compared as exact decimal strings, since CAS values are too big
+ * for JSON numbers. A CAS only known in its rounded form (e.g. read from a
+ * cache written with numeric CAS values) is matched with lossyCas instead
+ */
+
+import { promises as fs } from 'fs'
+import { fileURLToPath } from 'url'
+import { z } from 'zod'
+import { Logger } from '../../lib/logger.js'
+import type { IngestDocument } from './types.js'
+
+/**
+ * Rules file the ingest command and watch --ingest load by default, the one
+ * at the package root - so it's found whatever directory the CLI is run from
+ */
+export const DEFAULT_RULES_FILE = fileURLToPath(
+  new URL('../../../ingest-rules.json', import.meta.url)
+)
+
+const MATCH_FIELDS = [
+  'id',
+  'owner',
+  'email',
+  'ssoGuid',
+  'cas',
+  'lossyCas',
+] as const
+
+type MatchField = (typeof MATCH_FIELDS)[number]
+
+const IngestRuleSchema = z
+  .object({
+    action: z.enum(['skip', 'include']),
+    reason: z.string().min(1),
+    id: z.string().optional(), // Couchbase document ID (e.g. "user_123")
+    owner: z.string().optional(),
+    email: z.string().optional(), // Compared case-insensitively
+    ssoGuid: z.string().optional(),
+    cas: z
+      .string()
+      .regex(
+        /^\d+$/,
+        'CAS must be a decimal string - quote it, JSON numbers lose precision'
+      )
+      .optional(),
+    // CAS rounded through a JSON number - matches every CAS that rounds to it
+    lossyCas: z
+      .string()
+      .regex(/^\d+$/, 'lossyCas must be a decimal string')
+      .optional(),
+  })
+  .refine(rule => MATCH_FIELDS.some(field => rule[field] !== undefined), {
+    message: `A rule must match on at least one of ${MATCH_FIELDS.join(', ')}`,
+  })
+
+const IngestRulesFileSchema = z.object({
+  rules: z.array(IngestRuleSchema),
+})
+
+export type IngestRule = z.infer<typeof IngestRuleSchema>
+
+/**
+ * Round a CAS the way a JSON number does
+ * @param cas Decimal CAS
+ * @returns The CAS as the nearest double, in decimal
+ */
+function roundCas(cas: string): string {
+  return String(Number(cas))
+}
+
+/**
+ * What a document is matched on
+ */
+type RuleSubject = Partial<Record<MatchField, string>>
+
+/**
+ * Read the fields rules match on from a document
+ * Read from the raw document so rules can skip documents that would fail
+ * validation
+ * @param document Ingestion document
+ * @param rawData Parsed document ({ cas, 'JFM-profiles': body })
+ * @returns Rule subject
+ */
+function getRuleSubject(
+  document: IngestDocument,
+  rawData: unknown
+): RuleSubject {
+  const data =
+    rawData !== null && typeof rawData === 'object'
+      ? (rawData as Record<string, unknown>)
+      : {}
+  const body = data['JFM-profiles']
+  const profile =
+    body !== null && typeof body === 'object'
+      ? (body as Record<string, unknown>)
+      : {}
+  const getString = (key: string): string | undefined => {
+    const value = profile[key]
+    return typeof value === 'string' ? value.trim() : undefined
+  }
+
+  const owner = getString('owner')
+  const email = getString('email')?.toLowerCase()
+  const ssoGuid = getString('theKeySsoGuid')
+  const cas =
+    typeof data['cas'] === 'string' || typeof data['cas'] === 'number'
+      ? String(data['cas'])
+      : undefined
+  return {
+    id: document.id,
+    ...(owner && { owner }),
+    ...(email && { email }),
+    ...(ssoGuid && { ssoGuid }),
+    ...(cas && { cas, lossyCas: roundCas(cas) }),
+  }
+}
+
+/**
+ * Skip and include rules, with how many documents each matched
+ */
+export class IngestRules {
+  private rules: IngestRule[]
+  private matchCounts: number[]
+
+  constructor(rules: IngestRule[]) {
+    this.rules = rules.map(rule => ({
+      ...rule,
+      ...(rule.email && { email: rule.email.trim().toLowerCase() }),
+      ...(rule.lossyCas && { lossyCas: roundCas(rule.lossyCas) }),
+    }))
+    this.matchCounts = rules.map(() => 0)
+  }
+
+  /**
+   * Load rules from a JSON rules file
+   * @param filePath Path to the rules file
+   * @returns The rules
+   * @throws If the file can't be read or isn't a valid rules file
+   */
+  static async load(filePath: string): Promise<IngestRules> {
+    let content: string
+    try {
+      content = await fs.readFile(filePath, 'utf8')
+    } catch (error) {
+      throw new Error(
+        `Could not read rules file ${filePath} (pass --rules to use another file): ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch (error) {
+      throw new Error(
+        `Invalid rules file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    const parseResult = IngestRulesFileSchema.safeParse(data)
+    if (!parseResult.success) {
+      throw new Error(
+        `Invalid rules file ${filePath}: ${z.prettifyError(parseResult.error)}`
+      )
+    }
+    return new IngestRules(parseResult.data.rules)
+  }
+
+  /**
+   * Find the rule that decides whether a document is ingested
+   * Every matching rule's count goes up, whichever one decides
+   * @param document Ingestion document
+   * @param rawData Parsed document
+   * @returns The first matching include rule, else the first matching skip
+   * rule, or null if no rule matches
+   */
+  evaluate(document: IngestDocument, rawData: unknown): IngestRule | null {
+    if (this.rules.length === 0) {
+      return null
+    }
+    const subject = getRuleSubject(document, rawData)
+
+    let include: IngestRule | null = null
+    let skip: IngestRule | null = null
+    this.rules.forEach((rule, index) => {
+      const matches = MATCH_FIELDS.every(
+        field => rule[field] === undefined || rule[field] === subject[field]
+      )
+      if (!matches) return
+      this.matchCounts[index] = (this.matchCounts[index] ?? 0) + 1
+      if (rule.action === 'include') {
+        include ??= rule
+      } else {
+        skip ??= rule
+      }
+    })
+    return include ?? skip
+  }
+
+  /**
+   * Log how many documents each rule matched
+   * @param logger Logger instance
+   */
+  report(logger: Logger): void {
+    if (this.rules.length === 0) {
+      return
+    }
+    logger.info('\n📋 Ingestion rules:')
+    this.rules.forEach((rule, index) => {
+      const matchedOn = MATCH_FIELDS.filter(field => rule[field] !== undefined)
+        .map(field => `${field}=${rule[field]}`)
+        .join(', ')
+      logger.info(
+        `  ${rule.action === 'skip' ? '⏭️' : '✅'} ${rule.action} ${matchedOn} (${rule.reason}): ${this.matchCounts[index] ?? 0} documents`
+      )
+    })
+  }
+}
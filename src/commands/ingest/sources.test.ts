@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CacheIndex } from '../../lib/cache-index.js'
+import { openCacheReader } from '../../lib/cache-reader.js'
+import { LocalCacheStore } from '../../lib/cache-store.js'
+import { getCachePath } from '../../lib/document-processor.js'
+import { Logger } from '../../lib/logger.js'
+import { getCachedDocuments } from './sources.js'
+
+const logger = new Logger(false)
+
+describe('getCachedDocuments', () => {
+  let cacheDir: string
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sources-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('takes document IDs from the cache index', async () => {
+    const store = new LocalCacheStore(cacheDir)
+    const index = await CacheIndex.load(store, logger)
+    for (const id of ['a:b:x', 'a:b:c:x']) {
+      const cachePath = getCachePath(id, '.json', index)
+      await store.write(cachePath, JSON.stringify({ cas: '1' }))
+      index.set({
+        id,
+        cas: '1',
+        path: cachePath,
+        size: 12,
+        sha256: '',
+        type: 'json',
+        fetchedAt: new Date(0).toISOString(),
+      })
+    }
+    const collisionPath = index.get('a:b:c:x')?.path ?? ''
+    assert.match(collisionPath, /^a\/b\/x-[0-9a-f]{8}\.json$/)
+
+    const documents = getCachedDocuments(
+      openCacheReader(store, logger),
+      ['a/b/x.json', collisionPath, 'pl/123.json'],
+      index
+    )
+
+    assert.deepEqual(
+      documents.map(document => document.id),
+      ['a:b:x', 'a:b:c:x', 'pl_123']
+    )
+    assert.deepEqual(await documents[1]?.read(), { cas: '1' })
+  })
+})
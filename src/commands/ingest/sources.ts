@@ -0,0 +1,156 @@
+/**
+ * Ingestion Sources
+ *
+ * Where the ingestion pipelines read documents from: the cache written by
+ * build-cache, or Couchbase itself for targeted re-migrations of a handful of
+ * documents. Documents read from Couchbase are shaped exactly like cached
+ * files and never touch the disk
+ */
+
+import path from 'path'
+import { CacheIndex } from '../../lib/cache-index.js'
+import { CacheReader } from '../../lib/cache-reader.js'
+import { CouchbaseClient, type Keyspace } from '../../lib/couchbase.js'
+import {
+  getCachePath,
+  getDocuments,
+  type DocumentFilter,
+  type DocumentRow,
+} from '../../lib/document-processor.js'
+import { Logger } from '../../lib/logger.js'
+import type { IngestDocument } from './types.js'
+
+export type IngestSource = 'cache' | 'couchbase'
+
+const PAGE_SIZE = 100
+
+// Cache folders whose documents had their "<folder>_" ID prefix stripped
+const PREFIXED_FOLDERS = ['pl', 'mc', 'u', 'user']
+
+/**
+ * Get the Couchbase document ID a cache key was written for
+ * The cache index has the ID of every file build-cache wrote, including
+ * files with an ID hash added on a collision; the ID is only rebuilt from
+ * the filename for files the index doesn't know
+ * @param key Cache key (e.g. "pl/123.json")
+ * @param index Cache index of the source directory
+ * @returns Document ID (e.g. "pl_123")
+ */
+function getDocumentId(key: string, index: CacheIndex): string {
+  const indexedId = index.getIdByPath(key)
+  if (indexedId !== undefined) {
+    return indexedId
+  }
+  const folder = path.posix.dirname(key)
+  const filename = path.posix.basename(key, '.json')
+  return PREFIXED_FOLDERS.includes(folder) ? `${folder}_${filename}` : filename
+}
+
+/**
+ * Wrap cached files as ingestion documents
+ * @param reader Cache reader for the source directory
+ * @param keys Cache keys of the files
+ * @param index Cache index the document IDs are looked up in
+ * @returns Documents that read and parse their file when processed
+ */
+export function getCachedDocuments(
+  reader: CacheReader,
+  keys: string[],
+  index: CacheIndex
+): IngestDocument[] {
+  return keys.map(key => ({
+    id: getDocumentId(key, index),
+    name: key,
+    read: async () => JSON.parse(await reader.read(key)),
+  }))
+}
+
+/**
+ * Fetch every JSON document matching a filter, page by page
+ * @param client Couchbase client instance
+ * @param logger Logger instance
+ * @param filter Which documents to fetch
+ * @returns Document rows
+ */
+async function fetchAllDocuments(
+  client: CouchbaseClient,
+  logger: Logger,
+  filter: DocumentFilter
+): Promise<DocumentRow[]> {
+  const rows: DocumentRow[] = []
+  let cursor = ''
+  let hasMore = true
+  while (hasMore) {
+    const page = await getDocuments(client, logger, {
+      cursor,
+      limit: PAGE_SIZE,
+      filter: { ...filter, type: 'documents' },
+    })
+    rows.push(...page.documents)
+    cursor = page.nextCursor
+    hasMore = page.hasMore
+  }
+  return rows
+}
+
+/**
+ * Read documents straight from Couchbase by ID and/or ID prefix
+ * @param client Couchbase client instance
+ * @param logger Logger instance
+ * @param options IDs and ID prefixes to read, the keyspace to read them from
+ * (default: the first configured keyspace), and the cache folders the
+ * pipeline reads from (documents that would be cached elsewhere are skipped)
+ * @returns Documents keyed by the cache key they would have been cached under
+ */
+export async function getCouchbaseDocuments(
+  client: CouchbaseClient,
+  logger: Logger,
+  options: {
+    ids: string[]
+    prefixes: string[]
+    folders: string[]
+    keyspace?: Keyspace
+  }
+): Promise<IngestDocument[]> {
+  const { ids, prefixes, folders } = options
+  const keyspace = options.keyspace ?? client.getKeyspaces()[0]
+
+  const rows: Map<string, DocumentRow> = new Map()
+  if (ids.length > 0) {
+    const found = await fetchAllDocuments(client, logger, {
+      ids,
+      ...(keyspace && { keyspace }),
+    })
+    for (const row of found) {
+      rows.set(row.id, row)
+    }
+    for (const id of ids) {
+      if (!rows.has(id)) {
+        logger.warn(`⚠️ Document ${id} not found in Couchbase`)
+      }
+    }
+  }
+  if (prefixes.length > 0) {
+    const found = await fetchAllDocuments(client, logger, {
+      includePrefixes: prefixes,
+      ...(keyspace && { keyspace }),
+    })
+    for (const row of found) {
+      rows.set(row.id, row)
+    }
+  }
+
+  const documents: IngestDocument[] = []
+  for (const row of rows.values()) {
+    const { id, ...content } = row
+    const name = getCachePath(id, '.json')
+    if (!folders.includes(path.posix.dirname(name))) {
+      logger.log(`⏭️ Skipping ${id} (not cached in ${folders.join('/ or ')}/)`)
+      continue
+    }
+    documents.push({ id, name, read: async () => content })
+  }
+  return documents.sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+  )
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { CasSchema, isLossyCas, isSkippedDocument } from './types.js'
+
+describe('CasSchema', () => {
+  it('keeps decimal strings exact', () => {
+    assert.equal(CasSchema.parse('1566300870055755839'), '1566300870055755839')
+  })
+
+  it('accepts numbers from older caches as strings', () => {
+    assert.equal(CasSchema.parse(42), '42')
+  })
+
+  it('rejects anything else', () => {
+    assert.equal(CasSchema.safeParse('12a').success, false)
+    assert.equal(CasSchema.safeParse(-1).success, false)
+    assert.equal(CasSchema.safeParse(1.5).success, false)
+    assert.equal(CasSchema.safeParse(null).success, false)
+  })
+})
+
+describe('isLossyCas', () => {
+  it('flags numbers too big to hold a CAS exactly', () => {
+    assert.equal(isLossyCas(1566300870055755800), true)
+    assert.equal(isLossyCas(Number.MAX_SAFE_INTEGER), false)
+    assert.equal(isLossyCas('1566300870055755839'), false)
+    assert.equal(isLossyCas(undefined), false)
+  })
+})
+
+describe('isSkippedDocument', () => {
+  it('recognizes skipped results', () => {
+    assert.equal(isSkippedDocument({ type: 'skipped', reason: 'x' }), true)
+    assert.equal(isSkippedDocument({ id: 'user_1' }), false)
+    assert.equal(isSkippedDocument(null), false)
+  })
+})
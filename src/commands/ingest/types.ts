@@ -1,4 +1,29 @@
 import { z } from 'zod'
+import type { OktaUser } from '../../lib/okta.js'
+
+/**
+ * CAS of a cached document as a decimal string
+ * build-cache writes CAS values as strings, since they are 64-bit and JSON
+ * numbers round anything above 2^53. Caches written before that have numbers,
+ * which are still accepted - see isLossyCas
+ */
+export const CasSchema = z.union([
+  z.string().regex(/^\d+$/, 'CAS must be a decimal string'),
+  z
+    .number()
+    .int()
+    .nonnegative()
+    .transform(cas => String(cas)),
+])
+
+/**
+ * Check if a cached CAS was rounded on its way through a JSON number
+ * @param cas The cas field of a cached document
+ * @returns True for numbers too big to hold a CAS exactly
+ */
+export function isLossyCas(cas: unknown): boolean {
+  return typeof cas === 'number' && !Number.isSafeInteger(cas)
+}
 
 // Zod schemas for user data validation
 const SyncDataSchema = z.object({
@@ -33,64 +58,49 @@ export const UserProfileSchema = z.object({
   updatedAt: z.string(),
 })
 
-export type UserProfile = z.infer<typeof UserProfileSchema> & { cas: number }
+export type UserProfile = z.infer<typeof UserProfileSchema> & { cas: string }
 
-// Okta API user response type
-export interface OktaUser {
+/**
+ * The fields of an Okta user the users pipeline maps into Core and Firebase
+ */
+export interface OktaUserData {
   id: string
-  status:
-    | 'ACTIVE'
-    | 'DEPROVISIONED'
-    | 'LOCKED_OUT'
-    | 'PASSWORD_EXPIRED'
-    | 'PROVISIONED'
-    | 'RECOVERY'
-    | 'STAGED'
-    | 'SUSPENDED'
-  activated: string | null // ISO date-time
-  created: string // ISO date-time
-  lastLogin: string | null // ISO date-time
-  lastUpdated: string // ISO date-time
-  passwordChanged: string | null // ISO date-time
-  statusChanged: string | null // ISO date-time
-  transitioningToStatus: 'ACTIVE' | 'DEPROVISIONED' | 'PROVISIONED' | null
-  realmId: string
-  profile: {
-    firstName?: string
-    lastName?: string
-    theKeyGuid: string
-  }
-  credentials?: {
-    emails?: {
-      type: 'PRIMARY' | 'SECONDARY'
-      status: 'VERIFIED' | 'UNVERIFIED'
-      value: string
-    }[]
-    password?: {
-      value?: string
-      hash?: {
-        algorithm: string
-        salt?: string
-        saltOrder?: string
-        value: string
-        workFactor?: number
-      }
-      hook?: {
-        type: string
-      }
-    }
-    provider?: {
-      name: string
-      type:
-        | 'ACTIVE_DIRECTORY'
-        | 'FEDERATION'
-        | 'IMPORT'
-        | 'LDAP'
-        | 'OKTA'
-        | 'SOCIAL'
-    }
-    recovery_question?: {
-      question: string
-    }
-  }
+  firstName: string | undefined
+  lastName: string | undefined
+  status: OktaUser['status']
+  primaryEmail: string
+  primaryEmailObject: NonNullable<
+    NonNullable<OktaUser['credentials']>['emails']
+  >[number]
+  theKeySsoGuid: string
+}
+
+/**
+ * A document for an ingestion pipeline, read from the cache or straight from
+ * Couchbase
+ */
+export interface IngestDocument {
+  id: string // Couchbase document ID (e.g. "pl_123")
+  name: string // Cache key of the document (e.g. "pl/123.json"), used in logs and error files
+  read(): Promise<unknown> // Parsed document ({ cas, [bucketName]: body })
+}
+
+/**
+ * Returned by a pipeline for a document an ingestion rule skipped
+ */
+export interface SkippedDocument {
+  type: 'skipped'
+  reason: string
+}
+
+/**
+ * Check if a pipeline result is a document an ingestion rule skipped
+ */
+export function isSkippedDocument(value: unknown): value is SkippedDocument {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    'type' in value &&
+    value.type === 'skipped'
+  )
 }
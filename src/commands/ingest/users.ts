@@ -4,7 +4,6 @@
  * Handles ingesting user documents from the cache into Core
  */
 
-import { promises as fs } from 'fs'
 import path from 'path'
 import { z } from 'zod'
 import admin from 'firebase-admin'
@@ -22,23 +21,41 @@ import {
   writeErrorToFile,
   clearErrorsDirectory,
 } from '../../lib/error-handler.js'
-import { env } from '../../lib/env.js'
-import { UserProfileSchema, type UserProfile, type OktaUser } from './types.js'
+import { CacheIndex, resolveCachedFile } from '../../lib/cache-index.js'
+import { openCacheReader, type CacheReader } from '../../lib/cache-reader.js'
+import { openCacheStore, type CacheStore } from '../../lib/cache-store.js'
+import { getClient, type Keyspace } from '../../lib/couchbase.js'
+import {
+  getCachedDocuments,
+  getCouchbaseDocuments,
+  type IngestSource,
+} from './sources.js'
+import { OktaUserCache } from './okta-cache.js'
+import { lookupOktaUser } from './okta-lookup.js'
+import { IngestRules } from './rules.js'
+import {
+  CasSchema,
+  isLossyCas,
+  isSkippedDocument,
+  UserProfileSchema,
+  type IngestDocument,
+  type SkippedDocument,
+  type UserProfile,
+} from './types.js'
 import cliProgress from 'cli-progress'
+import { env } from '../../lib/env.js'
 import { Logger } from '../../lib/logger.js'
+import { OktaClient } from '../../lib/okta.js'
+import { getRetryOptions, withRetry } from '../../lib/retry.js'
+
+// Cache folders user documents are written to
+const USER_DIRS = ['user', 'u']
 
 const UserDocumentSchema = z.object({
   'JFM-profiles': UserProfileSchema,
-  cas: z.number(),
+  cas: CasSchema,
 })
 
-// Hardcoded list of cas values to skip
-const SKIP_CAS: number[] = [
-  // Add more cas values to skip as needed
-  1566300870055755800, 1687279660005064700, 1673036801239613400,
-  1593720804749148200, 1672946638568226800,
-]
-
 /**
  * Validate and transform user document data using Zod
  * @param rawData Raw JSON data from file
@@ -51,29 +68,13 @@ async function validateAndTransformUser(
   logger: Logger
 ): Promise<UserProfile | null> {
   try {
-    // Check if user should be skipped based on cas BEFORE parsing
-    let cas: number | undefined
-    if (
-      rawData &&
-      typeof rawData === 'object' &&
-      'cas' in rawData &&
-      typeof rawData.cas === 'number'
-    ) {
-      cas = rawData.cas
-    }
-
-    if (cas && SKIP_CAS.includes(cas)) {
-      return null
-    }
-
     // Parse and validate the raw data with Zod
     const parseResult = UserDocumentSchema.safeParse(rawData)
 
     if (!parseResult.success) {
       logger.warn(
         '⚠️ User document validation failed:',
-        parseResult.error.issues,
-        cas
+        parseResult.error.issues
       )
       await writeErrorToFile(
         sourceDir,
@@ -101,89 +102,45 @@ async function validateAndTransformUser(
 }
 
 /**
- * Retry Okta API call with exponential backoff for rate limits
- * @param fn Function that returns a fetch Response
- * @param maxRetries Maximum number of retries (default: 5)
- * @param baseDelay Base delay in milliseconds (default: 1000)
- * @returns Promise that resolves with the Response
- */
-async function fetchOktaWithRetry(
-  fn: () => Promise<Response>,
-  logger: Logger,
-  maxRetries: number = 5,
-  baseDelay: number = 5000
-): Promise<Response> {
-  let lastResponse: Response | undefined
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    const response = await fn()
-
-    // Success - return immediately
-    if (response.ok) {
-      return response
-    }
-
-    // 429 rate limit - retry with backoff
-    if (response.status === 429) {
-      lastResponse = response
-
-      if (attempt === maxRetries) {
-        logger.error(
-          `❌ Okta rate limit hit after ${maxRetries} attempts. Giving up.`
-        )
-        return response
-      }
-
-      // Check for x-rate-limit-reset header (Unix timestamp)
-      const rateLimitReset = response.headers.get('x-rate-limit-reset')
-      let delay: number
-
-      if (rateLimitReset) {
-        // Use x-rate-limit-reset header (Unix timestamp in seconds)
-        const resetTime = parseInt(rateLimitReset, 10) * 1000
-        const now = Date.now()
-        const bufferMs = 500 // 500ms buffer to ensure rate limit has reset
-        delay = Math.max(0, resetTime - now + bufferMs)
-        logger.warn(
-          `⚠️ Okta rate limit (429) - x-rate-limit-reset: ${rateLimitReset} (${new Date(resetTime).toISOString()}). Waiting ${delay}ms before retry ${attempt + 1}/${maxRetries}`
-        )
-      } else {
-        // Exponential backoff: baseDelay * 2^(attempt-1)
-        delay = baseDelay * Math.pow(2, attempt - 1)
-        logger.warn(
-          `⚠️ Okta rate limit (429) - No x-rate-limit-reset header. Retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`
-        )
-      }
-
-      await new Promise(resolve => setTimeout(resolve, delay))
-      continue
-    }
-
-    // Other errors - return immediately (don't retry)
-    return response
-  }
-
-  return lastResponse!
-}
-
-/**
- * Process a single user JSON file
- * @param filePath Path to the user JSON file
+ * Process a single user document
+ * @param document User document (a cached file or read from Couchbase)
  * @param sourceDir Base source directory for error files
  * @param dryRun Whether this is a dry run
- * @param oktaToken Okta token to use for API calls
- * @returns Processed user data or null if processing failed
+ * @param okta Okta client that searches for users
+ * @param oktaCache Okta users looked up on earlier runs
+ * @param rules Ingestion rules that skip or force-include documents
+ * @param lossyCasFiles Collects the documents cached with a lossy CAS
+ * @returns Processed user data, the skip reason if a rule skipped it, or null
+ * if processing failed
  */
 async function processUserFile(
-  filePath: string,
+  document: IngestDocument,
   sourceDir: string,
   dryRun: boolean,
-  oktaToken: string,
+  okta: OktaClient,
+  oktaCache: OktaUserCache,
+  rules: IngestRules,
+  lossyCasFiles: string[],
   logger: Logger
-): Promise<User | UserLocal | null> {
+): Promise<User | UserLocal | SkippedDocument | null> {
+  const filePath = document.name
   try {
-    const fileContent = await fs.readFile(filePath, 'utf8')
-    const rawData = JSON.parse(fileContent)
+    const rawData = await document.read()
+
+    if (
+      rawData !== null &&
+      typeof rawData === 'object' &&
+      'cas' in rawData &&
+      isLossyCas(rawData.cas)
+    ) {
+      lossyCasFiles.push(filePath)
+    }
+
+    const rule = rules.evaluate(document, rawData)
+    if (rule?.action === 'skip') {
+      logger.log(`⏭️ Skipping ${filePath}: ${rule.reason}`)
+      return { type: 'skipped', reason: rule.reason }
+    }
 
     const userData = await validateAndTransformUser(
       rawData,
@@ -219,197 +176,40 @@ async function processUserFile(
       )
       const selectedInterestIds = userData.selectedInterests ?? []
       const videoIdsToConnect = selectedInterestIds.map(id => ({ id }))
-      await prismaApiMedia.userMediaProfile.upsert({
-        where: { userId: existingLocalUser.firebaseUserId },
-        create: {
-          id: uuidv4(),
-          userId: existingLocalUser.firebaseUserId,
-          countryInterestIds,
-          languageInterestIds,
-          userInterests: { connect: videoIdsToConnect },
-        },
-        update: {
-          countryInterestIds,
-          languageInterestIds,
-          userInterests: { set: videoIdsToConnect },
-        },
-      })
+      await withRetry(
+        () =>
+          prismaApiMedia.userMediaProfile.upsert({
+            where: { userId: existingLocalUser.firebaseUserId },
+            create: {
+              id: uuidv4(),
+              userId: existingLocalUser.firebaseUserId,
+              countryInterestIds,
+              languageInterestIds,
+              userInterests: { connect: videoIdsToConnect },
+            },
+            update: {
+              countryInterestIds,
+              languageInterestIds,
+              userInterests: { set: videoIdsToConnect },
+            },
+          }),
+        getRetryOptions('prisma', logger, 'Prisma')
+      )
       logger.info(
         `✅ Upserted UserMediaProfile for ${userData.email} (userId: ${existingLocalUser.firebaseUserId})`
       )
       return existingLocalUser
     }
 
-    // Fetch user from Okta API by SSO GUID
-    let oktaUserData
-
-    try {
-      const filterExpression = `profile.theKeyGuid eq "${userData.theKeySsoGuid.trim()}"`
-      const token = oktaToken
-      const oktaResponse = await fetchOktaWithRetry(
-        () =>
-          fetch(
-            `https://signon.okta.com/api/v1/users?search=${encodeURIComponent(filterExpression)}`,
-            {
-              headers: {
-                Authorization: `SSWS ${token}`,
-                Accept: 'application/json',
-              },
-            }
-          ),
-        logger,
-        5, // max retries
-        5000 // base delay 5 second
-      )
-
-      if (!oktaResponse.ok) {
-        if (oktaResponse.status === 404) {
-          logger.warn(
-            `⚠️ User with email ${userData.email} and ssoGuid ${userData.theKeySsoGuid} not found in Okta`
-          )
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            oktaResponse.status,
-            logger,
-            userData
-          )
-          return null
-        } else {
-          const errorText = await oktaResponse.text()
-          logger.error(
-            `❌ Okta API error (${oktaResponse.status}) for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}: ${errorText}`
-          )
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            oktaResponse.status,
-            logger,
-            userData
-          )
-          return null
-        }
-      } else {
-        // Read response body once - filter endpoint returns an array
-        const responseData = (await oktaResponse.json()) as OktaUser[]
-
-        if (!responseData || responseData.length === 0) {
-          logger.warn(`⚠️ No users found in Okta for email ${userData.email}`)
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            new Error(
-              `No users found in Okta response for email ${userData.email}: ${JSON.stringify(responseData)}`
-            ),
-            logger,
-            userData
-          )
-          return null
-        }
-
-        if (responseData.length > 1) {
-          logger.warn(
-            `⚠️ Multiple users found in Okta for SSO GUID ${userData.theKeySsoGuid}`
-          )
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            new Error('Multiple users found in Okta response'),
-            logger,
-            userData
-          )
-          return null
-        }
-
-        // Get the first user from the array (should only be one for exact SSO match)
-        const resData = responseData[0]
-
-        if (!resData) {
-          logger.warn(
-            `⚠️ No user data in Okta response for email ${userData.email}`
-          )
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            new Error('No user data in Okta response'),
-            logger,
-            userData
-          )
-          return null
-        }
-
-        const emails = resData.credentials?.emails
-        const primaryEmail = resData.credentials?.emails?.find(
-          email => email.type === 'PRIMARY'
-        )
-        if (!primaryEmail) {
-          logger.warn(
-            `⚠️ No primary email found in Okta response for email ${userData.email}`
-          )
-          await writeErrorToFile(
-            sourceDir,
-            'users',
-            filePath,
-            new Error('No primary email found in Okta response'),
-            logger,
-            userData
-          )
-          return null
-        }
-        oktaUserData = {
-          id: resData.id,
-          firstName: resData.profile.firstName,
-          lastName: resData.profile.lastName,
-          status: resData.status,
-          primaryEmail: primaryEmail.value,
-          primaryEmailObject: primaryEmail,
-          theKeySsoGuid: resData.profile.theKeyGuid,
-        }
-
-        logger.info(
-          `✅ Fetched Okta user data for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}:`,
-          {
-            id: oktaUserData?.id,
-            email: userData?.email,
-            status: oktaUserData?.status,
-            firstName: oktaUserData?.firstName,
-            lastName: oktaUserData?.lastName,
-            primaryEmail: oktaUserData?.primaryEmail,
-            emails: emails?.map(email => email.value),
-          }
-        )
-      }
-    } catch (error) {
-      logger.error(
-        `❌ Error fetching user from Okta API for email ${userData.email} and ssoGuid ${userData.theKeySsoGuid}:`,
-        error
-      )
-      await writeErrorToFile(
-        sourceDir,
-        'users',
-        filePath,
-        error,
-        logger,
-        userData
-      )
-      return null
-      // Continue processing even if Okta fetch fails
-    }
-    // it shouhldn't be null but adding this to satisfy ts-lint
+    const oktaUserData = await lookupOktaUser(
+      userData,
+      filePath,
+      sourceDir,
+      okta,
+      oktaCache,
+      logger
+    )
     if (!oktaUserData) {
-      await writeErrorToFile(
-        sourceDir,
-        'users',
-        filePath,
-        new Error('oktaUserData object is null'),
-        logger,
-        userData
-      )
       return null
     }
 
@@ -417,7 +217,10 @@ async function processUserFile(
     let firebaseUser: admin.auth.UserRecord | null = null
     try {
       try {
-        firebaseUser = await auth.getUserByEmail(oktaUserData.primaryEmail)
+        firebaseUser = await withRetry(
+          () => auth.getUserByEmail(oktaUserData.primaryEmail),
+          getRetryOptions('firebase', logger, 'Firebase')
+        )
         logger.info(
           `ℹ️ User with email ${userData.email} already exists in Firebase (UID: ${firebaseUser.uid})`
         )
@@ -425,16 +228,21 @@ async function processUserFile(
           provider => provider.providerId === 'oidc.okta'
         )
         if (!oktaProvider) {
-          firebaseUser = await auth.updateUser(firebaseUser.uid, {
-            providerToLink: {
-              providerId: 'oidc.okta',
-              // use theKeySsoGuid from the OKTA response object because it is the correct one
-              uid: oktaUserData?.theKeySsoGuid,
-              displayName:
-                `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
-              email: oktaUserData.primaryEmail,
-            },
-          })
+          const { uid } = firebaseUser
+          firebaseUser = await withRetry(
+            () =>
+              auth.updateUser(uid, {
+                providerToLink: {
+                  providerId: 'oidc.okta',
+                  // use theKeySsoGuid from the OKTA response object because it is the correct one
+                  uid: oktaUserData?.theKeySsoGuid,
+                  displayName:
+                    `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
+                  email: oktaUserData.primaryEmail,
+                },
+              }),
+            getRetryOptions('firebase', logger, 'Firebase')
+          )
           logger.info(
             `✅ Updated Firebase user for ${userData.email} with Okta OCID: ${userData.theKeySsoGuid}`
           )
@@ -446,25 +254,34 @@ async function processUserFile(
         const firebaseError = error as { code?: string }
         if (firebaseError.code === 'auth/user-not-found') {
           try {
-            firebaseUser = await auth.createUser({
-              email: oktaUserData.primaryEmail,
-              emailVerified:
-                oktaUserData.primaryEmailObject?.status === 'VERIFIED'
-                  ? true
-                  : false,
-              displayName:
-                `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
-              disabled: false,
-            })
-            firebaseUser = await auth.updateUser(firebaseUser.uid, {
-              providerToLink: {
-                providerId: 'oidc.okta',
-                uid: oktaUserData.theKeySsoGuid,
-                displayName:
-                  `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
-                email: oktaUserData.primaryEmail,
-              },
-            })
+            firebaseUser = await withRetry(
+              () =>
+                auth.createUser({
+                  email: oktaUserData.primaryEmail,
+                  emailVerified:
+                    oktaUserData.primaryEmailObject?.status === 'VERIFIED'
+                      ? true
+                      : false,
+                  displayName:
+                    `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
+                  disabled: false,
+                }),
+              getRetryOptions('firebase', logger, 'Firebase')
+            )
+            const { uid } = firebaseUser
+            firebaseUser = await withRetry(
+              () =>
+                auth.updateUser(uid, {
+                  providerToLink: {
+                    providerId: 'oidc.okta',
+                    uid: oktaUserData.theKeySsoGuid,
+                    displayName:
+                      `${oktaUserData.firstName} ${oktaUserData.lastName}`.trim(),
+                    email: oktaUserData.primaryEmail,
+                  },
+                }),
+              getRetryOptions('firebase', logger, 'Firebase')
+            )
 
             logger.info(
               `✅ Created Firebase user for ${userData.email} with Okta OCID: ${userData.theKeySsoGuid}`
@@ -549,9 +366,13 @@ async function processUserFile(
           superAdmin: false,
         }
 
-        userSavedToCore = await prismaApiUsers.user.create({
-          data: user,
-        })
+        userSavedToCore = await withRetry(
+          () =>
+            prismaApiUsers.user.create({
+              data: user,
+            }),
+          getRetryOptions('prisma', logger, 'Prisma')
+        )
         logger.info(`✅ Created user ${firebaseUser.email} in core database`)
       }
 
@@ -563,11 +384,15 @@ async function processUserFile(
         firebaseUserId: firebaseUser.uid,
       }
 
-      await prismaUsers.user.upsert({
-        where: { ssoGuid: oktaUserData.theKeySsoGuid },
-        create: userToSaveToLocal,
-        update: userToSaveToLocal,
-      })
+      await withRetry(
+        () =>
+          prismaUsers.user.upsert({
+            where: { ssoGuid: oktaUserData.theKeySsoGuid },
+            create: userToSaveToLocal,
+            update: userToSaveToLocal,
+          }),
+        getRetryOptions('prisma', logger, 'Prisma')
+      )
       logger.info(`✅ Saved user ${firebaseUser.email} to local database`)
 
       // Upsert UserMediaProfile (countryInterestIds, languageInterestIds, userInterests)
@@ -578,21 +403,25 @@ async function processUserFile(
       const selectedInterestIds = userData.selectedInterests ?? []
       const videoIdsToConnect = selectedInterestIds.map(id => ({ id }))
 
-      await prismaApiMedia.userMediaProfile.upsert({
-        where: { userId: userSavedToCore.userId },
-        create: {
-          id: uuidv4(),
-          userId: userSavedToCore.userId,
-          countryInterestIds,
-          languageInterestIds,
-          userInterests: { connect: videoIdsToConnect },
-        },
-        update: {
-          countryInterestIds,
-          languageInterestIds,
-          userInterests: { set: videoIdsToConnect },
-        },
-      })
+      await withRetry(
+        () =>
+          prismaApiMedia.userMediaProfile.upsert({
+            where: { userId: userSavedToCore.userId },
+            create: {
+              id: uuidv4(),
+              userId: userSavedToCore.userId,
+              countryInterestIds,
+              languageInterestIds,
+              userInterests: { connect: videoIdsToConnect },
+            },
+            update: {
+              countryInterestIds,
+              languageInterestIds,
+              userInterests: { set: videoIdsToConnect },
+            },
+          }),
+        getRetryOptions('prisma', logger, 'Prisma')
+      )
       logger.info(
         `✅ Upserted UserMediaProfile for ${firebaseUser.email} (userId: ${userSavedToCore.id})`
       )
@@ -615,8 +444,7 @@ async function processUserFile(
     // Try to read rawData if available, otherwise use undefined
     let rawData: unknown
     try {
-      const fileContent = await fs.readFile(filePath, 'utf8')
-      rawData = JSON.parse(fileContent)
+      rawData = await document.read()
     } catch {
       rawData = undefined
     }
@@ -627,18 +455,32 @@ async function processUserFile(
 
 /**
  * Get all user JSON files from both user directories
- * @param sourceDir Base source directory
- * @param fileName Optional specific file name to filter by
+ * @param store Cache store of the source directory
+ * @param reader Cache reader for the source directory
+ * @param fileName Optional specific file name (or original document ID) to filter by
  * @returns Array of file paths
  */
 async function getUserFiles(
-  sourceDir: string,
+  store: CacheStore,
+  reader: CacheReader,
   logger: Logger,
   fileName?: string
 ): Promise<string[]> {
-  const userDirs = ['user', 'u']
   const allFiles: string[] = []
 
+  // Look the file up by its original document ID (e.g. "user_123") first
+  if (fileName) {
+    const indexedFile = await resolveCachedFile(
+      store,
+      fileName,
+      USER_DIRS,
+      logger
+    )
+    if (indexedFile) {
+      return [indexedFile]
+    }
+  }
+
   // Normalize fileName - ensure it has .json extension if provided
   const normalizedFileName = fileName
     ? fileName.endsWith('.json')
@@ -646,19 +488,17 @@ async function getUserFiles(
       : `${fileName}.json`
     : undefined
 
-  for (const userDir of userDirs) {
-    const fullPath = path.join(sourceDir, userDir)
+  for (const userDir of USER_DIRS) {
+    const fullPath = `${store.location}/${userDir}`
     try {
-      const files = await fs.readdir(fullPath)
-      const jsonFiles = files
-        .filter(file => {
-          if (!file.endsWith('.json')) return false
-          if (normalizedFileName) {
-            return file === normalizedFileName
-          }
-          return true
-        })
-        .map(file => path.join(fullPath, file))
+      const files = await reader.list(userDir)
+      const jsonFiles = files.filter(file => {
+        if (!file.endsWith('.json')) return false
+        if (normalizedFileName) {
+          return path.basename(file) === normalizedFileName
+        }
+        return true
+      })
       allFiles.push(...jsonFiles)
     } catch (error) {
       logger.error(`❌ Error reading user directory ${fullPath}:`, error)
@@ -672,12 +512,14 @@ async function getUserFiles(
 export interface UserIngestionSummary {
   successCount: number
   errorCount: number
+  skippedCount: number // Skipped by an ingestion rule
+  lossyCasCount: number // Cached with a CAS rounded by a JSON number
   totalFiles: number
   processedUsers: (User | UserLocal)[]
 }
 
 /**
- * Ingest users from cache directory
+ * Ingest users from cache directory, or straight from Couchbase
  * @param options Options for user ingestion
  * @returns Summary of user ingestion
  */
@@ -686,7 +528,15 @@ export async function ingestUsers(
     sourceDir?: string
     dryRun?: boolean
     file?: string
+    from?: IngestSource
+    ids?: string[]
+    prefixes?: string[]
+    keyspace?: Keyspace
     concurrency?: number
+    rules?: IngestRules
+    refreshOkta?: boolean // Search Okta even for users cached by earlier runs or in the okta-sync snapshot
+    okta?: OktaClient // Default: a client for OKTA_BASE_URL with the configured tokens
+    clearErrors?: boolean // Clear error files from earlier runs first (default: true)
     debug?: boolean
   } = {}
 ): Promise<UserIngestionSummary | null> {
@@ -694,26 +544,69 @@ export async function ingestUsers(
     sourceDir = './tmp',
     dryRun = false,
     file,
+    from = 'cache',
+    ids = [],
+    prefixes = [],
     concurrency = 10,
+    rules = new IngestRules([]),
+    refreshOkta = false,
+    clearErrors = true,
     debug = false,
   } = options
   const logger = new Logger(debug)
 
   logger.info('👥 Starting user ingestion pipeline...')
-  logger.info(`📁 Source directory: ${sourceDir}`)
+  if (from === 'couchbase') {
+    logger.info('🔌 Source: Couchbase (bypassing the cache)')
+  } else {
+    logger.info(`📁 Source directory: ${sourceDir}`)
+  }
   logger.info(`🔍 Dry run: ${dryRun ? 'Yes' : 'No'}`)
-  logger.info(`⚡ Concurrency: ${concurrency} (balanced across 2 Okta tokens)`)
+  const okta = options.okta ?? new OktaClient({}, logger)
+  const oktaCache = new OktaUserCache(
+    { ttlHours: env.OKTA_CACHE_TTL_HOURS, refresh: refreshOkta },
+    logger
+  )
+  logger.info(
+    `⚡ Concurrency: ${concurrency} (spread across ${okta.getTokenCount()} Okta tokens)`
+  )
+  logger.info(
+    refreshOkta || env.OKTA_CACHE_TTL_HOURS === 0
+      ? '💾 Okta cache: searching Okta for every user'
+      : `💾 Okta cache: reusing lookups and the okta-sync snapshot for ${env.OKTA_CACHE_TTL_HOURS} hours`
+  )
   if (file) {
     logger.info(`📄 Processing single file: ${file}`)
   }
 
   // Clear errors directory at the beginning
-  await clearErrorsDirectory(sourceDir, 'users', logger)
+  if (clearErrors) {
+    await clearErrorsDirectory(sourceDir, 'users', logger)
+  }
 
-  // Get all user files from both user and u directories
-  const userFiles = await getUserFiles(sourceDir, logger, file)
+  let userFiles: IngestDocument[]
+  if (from === 'couchbase') {
+    userFiles = await getCouchbaseDocuments(getClient({ debug }), logger, {
+      ids,
+      prefixes,
+      folders: USER_DIRS,
+      ...(options.keyspace && { keyspace: options.keyspace }),
+    })
+  } else {
+    // Get all user files from both user and u directories (or their archive
+    // segments)
+    const store = openCacheStore(sourceDir)
+    const reader = openCacheReader(store, logger)
+    userFiles = getCachedDocuments(
+      reader,
+      await getUserFiles(store, reader, logger, file),
+      await CacheIndex.load(store, logger)
+    )
+  }
   if (userFiles.length === 0) {
-    if (file) {
+    if (from === 'couchbase') {
+      logger.info('ℹ️ No user documents found in Couchbase')
+    } else if (file) {
       logger.info(`ℹ️ File ${file} not found in user/ or u/ directories`)
     } else {
       logger.info('ℹ️ No user files found in user/ or u/ directories')
@@ -739,42 +632,48 @@ export async function ingestUsers(
     progressBar.start(userFiles.length, 0)
   }
 
-  // Process user files with concurrency limit, balancing between two tokens
+  // Process user files with concurrency limit; the rate limiter sends each
+  // Okta request with whichever token has budget left
   const processedUsers: (User | UserLocal)[] = []
   let successCount = 0
   let errorCount = 0
+  let skippedCount = 0
+  const lossyCasFiles: string[] = []
 
   for (let i = 0; i < userFiles.length; i += concurrency) {
     const batch = userFiles.slice(i, i + concurrency)
-    const halfBatch = Math.ceil(batch.length / 2)
 
-    // Split batch: first half uses OKTA_TOKEN, second half uses OKTA_TOKEN_2
-    const firstHalf = batch.slice(0, halfBatch)
-    const secondHalf = batch.slice(halfBatch)
-
-    const results = await Promise.allSettled([
-      ...firstHalf.map(filePath =>
-        processUserFile(filePath, sourceDir, dryRun, env.OKTA_TOKEN, logger)
-      ),
-      ...secondHalf.map(filePath =>
-        processUserFile(filePath, sourceDir, dryRun, env.OKTA_TOKEN_2, logger)
-      ),
-    ])
+    const results = await Promise.allSettled(
+      batch.map(document =>
+        processUserFile(
+          document,
+          sourceDir,
+          dryRun,
+          okta,
+          oktaCache,
+          rules,
+          lossyCasFiles,
+          logger
+        )
+      )
+    )
 
     for (const result of results) {
-      if (result.status === 'fulfilled' && result.value) {
+      if (result.status === 'fulfilled' && isSkippedDocument(result.value)) {
+        skippedCount++
+      } else if (result.status === 'fulfilled' && result.value) {
         processedUsers.push(result.value)
         successCount++
       } else {
         errorCount++
       }
       if (progressBar) {
-        progressBar.update(successCount + errorCount)
+        progressBar.update(successCount + errorCount + skippedCount)
       }
     }
 
     if (!progressBar && !debug) {
-      const total = successCount + errorCount
+      const total = successCount + errorCount + skippedCount
       const pct = ((total / userFiles.length) * 100).toFixed(1)
       logger.info(`👥 Ingesting users: ${total}/${userFiles.length} (${pct}%)`)
     }
@@ -784,6 +683,18 @@ export async function ingestUsers(
     progressBar.stop()
   }
 
+  if (!dryRun) {
+    const { hits, snapshotHits, misses } = oktaCache.getStats()
+    logger.info(
+      `💾 Okta cache: ${hits} users reused, ${snapshotHits} resolved from the okta-sync snapshot, ${misses} searched in Okta`
+    )
+    for (const usage of okta.getUsage()) {
+      logger.info(
+        `🔑 Okta ${usage.name}: ${usage.requests} requests${usage.limit !== null ? ` (limit ${usage.limit} per window)` : ''}`
+      )
+    }
+  }
+
   if (dryRun) {
     logger.info('\n🔍 Dry run - showing sample processed users:')
     processedUsers.slice(0, 3).forEach((user, index) => {
@@ -801,6 +712,8 @@ export async function ingestUsers(
   return {
     successCount,
     errorCount,
+    skippedCount,
+    lossyCasCount: lossyCasFiles.length,
     totalFiles: userFiles.length,
     processedUsers,
   }
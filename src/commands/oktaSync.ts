@@ -0,0 +1,122 @@
+/**
+ * Okta Sync Module
+ *
+ * Walks every Okta user with a theKeyGuid, page by page, and stores a
+ * snapshot of their theKeyGuid, status, name and emails in the local users
+ * database. The users pipeline resolves SSO GUIDs from the snapshot and only
+ * searches Okta for users it doesn't find there
+ */
+
+import { OktaClient, type OktaUser } from '../lib/okta.js'
+import { prismaUsers } from '../lib/prisma/users/client.js'
+import { Logger } from '../lib/logger.js'
+import { getRetryOptions, withRetry } from '../lib/retry.js'
+
+export interface OktaSyncSummary {
+  pages: number
+  users: number // Users stored in the snapshot
+  removed: number // Users in the previous snapshot that Okta no longer has
+  durationMs: number
+}
+
+/**
+ * Store a page of Okta users in the snapshot
+ * @param users Okta users
+ * @param syncedAt When this sync started
+ * @param logger Logger instance
+ * @returns Number of users stored (users without a theKeyGuid are left out)
+ */
+async function storeUsers(
+  users: OktaUser[],
+  syncedAt: Date,
+  logger: Logger
+): Promise<number> {
+  const rows = users
+    .filter(user => user.profile.theKeyGuid)
+    .map(user => ({
+      oktaId: user.id,
+      theKeyGuid: user.profile.theKeyGuid.trim(),
+      status: user.status,
+      firstName: user.profile.firstName ?? null,
+      lastName: user.profile.lastName ?? null,
+      emails: JSON.stringify(user.credentials?.emails ?? []),
+      syncedAt,
+    }))
+  await withRetry(
+    () =>
+      prismaUsers.$transaction(
+        rows.map(row =>
+          prismaUsers.oktaSnapshotUser.upsert({
+            where: { oktaId: row.oktaId },
+            create: row,
+            update: row,
+          })
+        )
+      ),
+    getRetryOptions('prisma', logger, 'Prisma')
+  )
+  return rows.length
+}
+
+/**
+ * Replace the local snapshot of Okta users
+ * @param options Options for the sync - okta defaults to a client for
+ * OKTA_BASE_URL with the configured tokens
+ * @returns Summary of the sync
+ */
+export async function oktaSync(
+  options: { okta?: OktaClient; debug?: boolean } = {}
+): Promise<OktaSyncSummary> {
+  const { debug = false } = options
+  const logger = new Logger(debug)
+  const startTime = Date.now()
+  const syncedAt = new Date(startTime)
+  const okta = options.okta ?? new OktaClient({}, logger)
+
+  logger.info('🔄 Syncing Okta users into the local snapshot...')
+  logger.info(`🔑 Okta tokens: ${okta.getTokenCount()}`)
+
+  const summary: OktaSyncSummary = {
+    pages: 0,
+    users: 0,
+    removed: 0,
+    durationMs: 0,
+  }
+
+  let url: string | null = null
+  do {
+    const page = await okta.listUsersPage(url)
+    summary.pages++
+    summary.users += await storeUsers(page.users, syncedAt, logger)
+    url = page.next
+    logger.log(`📄 Page ${summary.pages}: ${page.users.length} users`)
+    if (!debug && summary.pages % 10 === 0) {
+      logger.info(`👥 Synced ${summary.users} Okta users...`)
+    }
+  } while (url)
+
+  // Only reached once every page was stored, so a failed sync never empties
+  // the snapshot
+  const removed = await withRetry<{ count: number }>(
+    () =>
+      prismaUsers.oktaSnapshotUser.deleteMany({
+        where: { syncedAt: { lt: syncedAt } },
+      }),
+    getRetryOptions('prisma', logger, 'Prisma')
+  )
+  summary.removed = removed.count
+  summary.durationMs = Date.now() - startTime
+
+  logger.info('\n📊 Okta Sync Summary:')
+  logger.info(`👥 Users stored: ${summary.users}`)
+  logger.info(`📄 Pages: ${summary.pages}`)
+  logger.info(`🗑️ Removed (no longer in Okta): ${summary.removed}`)
+  logger.info(`⏱️ Duration: ${(summary.durationMs / 1000).toFixed(1)}s`)
+  for (const usage of okta.getUsage()) {
+    logger.info(
+      `🔑 Okta ${usage.name}: ${usage.requests} requests${usage.limit !== null ? ` (limit ${usage.limit} per window)` : ''}`
+    )
+  }
+
+  return summary
+}
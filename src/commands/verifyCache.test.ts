@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createHash } from 'crypto'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { verifyCache } from './verifyCache.js'
+
+function attachmentStem(content: Buffer): string {
+  const digest = createHash('sha1').update(content).digest('base64')
+  return `sha1-${digest.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+}
+
+describe('verifyCache', () => {
+  let sourceDir: string
+
+  beforeEach(async () => {
+    sourceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'verify-cache-'))
+    await fs.mkdir(path.join(sourceDir, '_sync', 'att'), { recursive: true })
+  })
+
+  afterEach(async () => {
+    await fs.rm(sourceDir, { recursive: true, force: true })
+  })
+
+  it('verifies attachments missing from the cache index by filename', async () => {
+    const good = Buffer.from('a')
+    const bad = Buffer.from('b')
+    const attachmentDir = path.join(sourceDir, '_sync', 'att')
+    await fs.writeFile(
+      path.join(attachmentDir, `${attachmentStem(good)}.bin`),
+      good
+    )
+    await fs.writeFile(
+      path.join(attachmentDir, `${attachmentStem(good)}.png`),
+      bad
+    )
+
+    const summary = await verifyCache({ sourceDir })
+
+    assert.deepEqual(summary, {
+      verified: 1,
+      mismatched: 1,
+      missing: 0,
+      unindexed: 2,
+    })
+    const errorFile = JSON.parse(
+      await fs.readFile(
+        path.join(
+          sourceDir,
+          'errors',
+          'attachments',
+          `${attachmentStem(good)}.png.json`
+        ),
+        'utf-8'
+      )
+    ) as { error: string }
+    assert.match(errorFile.error, /SHA-1 mismatch/)
+  })
+
+  it('verifies every bucket and keyspace folder', async () => {
+    const good = Buffer.from('a')
+    const bad = Buffer.from('b')
+    const keyspaceDir = path.join(sourceDir, 'b2', 'media', 'playlists')
+    for (const dir of [path.join(sourceDir, 'b1'), keyspaceDir]) {
+      await fs.mkdir(path.join(dir, '_sync', 'att'), { recursive: true })
+    }
+    await fs.writeFile(
+      path.join(sourceDir, 'b1', '_sync', 'att', `${attachmentStem(good)}.bin`),
+      good
+    )
+    await fs.writeFile(
+      path.join(keyspaceDir, '_sync', 'att', `${attachmentStem(good)}.png`),
+      bad
+    )
+
+    const summary = await verifyCache({
+      sourceDir,
+      buckets: ['b1', 'b2'],
+      keyspaces: [
+        { scope: '_default', collection: '_default' },
+        { scope: 'media', collection: 'playlists' },
+      ],
+    })
+
+    assert.deepEqual(summary, {
+      verified: 1,
+      mismatched: 1,
+      missing: 0,
+      unindexed: 2,
+    })
+    await fs.access(
+      path.join(
+        keyspaceDir,
+        'errors',
+        'attachments',
+        `${attachmentStem(good)}.png.json`
+      )
+    )
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Verify Cache Module
+ *
+ * Re-checks every cached attachment against the SHA-1 digest in its ID, in
+ * every bucket and keyspace folder build-cache writes
+ */
+
+import path from 'path'
+import cliProgress from 'cli-progress'
+import { CacheIndex } from '../lib/cache-index.js'
+import {
+  joinCacheLocation,
+  openCacheStore,
+  type CacheStore,
+} from '../lib/cache-store.js'
+import {
+  getClient,
+  getKeyspaceFolder,
+  type Keyspace,
+} from '../lib/couchbase.js'
+import {
+  verifyAttachmentDigest,
+  verifyAttachmentFilename,
+} from '../lib/document-processor.js'
+import { clearErrorsDirectory, writeErrorToFile } from '../lib/error-handler.js'
+import { Logger } from '../lib/logger.js'
+
+export interface VerifyCacheSummary {
+  verified: number
+  mismatched: number
+  missing: number
+  unindexed: number // Checked against their filename (counted in verified or mismatched)
+}
+
+/**
+ * List the attachment files in the cache that no cache index entry points to
+ * @param store Cache store
+ * @param indexedPaths Keys recorded in the cache index
+ * @returns Keys of unindexed attachment files
+ */
+async function findUnindexedAttachments(
+  store: CacheStore,
+  indexedPaths: Set<string>
+): Promise<string[]> {
+  const entries = await store.list('_sync/att')
+  return entries.map(entry => entry.key).filter(key => !indexedPaths.has(key))
+}
+
+/**
+ * Verify the attachments of one keyspace's cache against the digests in
+ * their document IDs
+ * The filename alone can't give the digest back since unsafe base64
+ * characters are replaced when it is generated, so attachments are looked
+ * up in the cache index to recover their original IDs. Attachments cached
+ * before the index existed are checked by turning the digest of their
+ * content into a filename and comparing it with theirs
+ * @param store Cache store of the keyspace
+ * @param logger Logger instance
+ * @param debug Whether debug logging is on (no progress bar)
+ * @returns Summary of the verification
+ */
+async function verifyStore(
+  store: CacheStore,
+  logger: Logger,
+  debug: boolean
+): Promise<VerifyCacheSummary> {
+  const sourceDir = store.location
+  await clearErrorsDirectory(sourceDir, 'attachments', logger)
+
+  const index = await CacheIndex.load(store, logger)
+  const attachments = Array.from(index.values()).filter(entry =>
+    entry.id.startsWith('_sync:att:')
+  )
+  logger.info(`📊 Found ${attachments.length} attachments in the cache index`)
+  const unindexed = await findUnindexedAttachments(
+    store,
+    new Set(attachments.map(entry => entry.path))
+  )
+  if (unindexed.length > 0) {
+    logger.info(
+      `📊 Found ${unindexed.length} attachments that are not in the cache index`
+    )
+  }
+
+  const summary: VerifyCacheSummary = {
+    verified: 0,
+    mismatched: 0,
+    missing: 0,
+    unindexed: 0,
+  }
+
+  const isTTY = process.stdout.isTTY ?? false
+  let progressBar: cliProgress.SingleBar | null = null
+  if (!debug && isTTY) {
+    progressBar = new cliProgress.SingleBar(
+      {
+        format:
+          '🔍 Verifying attachments |{bar}| {percentage}% | {value}/{total} files | Elapsed: {duration_formatted} | ETA: {eta_formatted}',
+        barCompleteChar: '\u2588',
+        barIncompleteChar: '\u2591',
+        hideCursor: true,
+      },
+      cliProgress.Presets.shades_classic
+    )
+    progressBar.start(attachments.length + unindexed.length, 0)
+  }
+
+  for (const entry of attachments) {
+    const filePath = `${store.location}/${entry.path}`
+    const errorFileName = `${path.basename(entry.path)}.json`
+
+    let content: Buffer
+    try {
+      content = await store.read(entry.path)
+    } catch (error) {
+      summary.missing++
+      logger.warn(`⚠️ Attachment ${entry.id} is missing: ${filePath}`)
+      await writeErrorToFile(
+        sourceDir,
+        'attachments',
+        errorFileName,
+        error,
+        logger,
+        entry
+      )
+      progressBar?.increment()
+      continue
+    }
+
+    const digest = verifyAttachmentDigest(entry.id, content)
+    if (digest?.matches) {
+      summary.verified++
+      logger.log(`✅ attachment: ${entry.path}`)
+    } else {
+      summary.mismatched++
+      const error = new Error(
+        `SHA-1 mismatch for attachment ${entry.id}: expected ${digest?.expected}, got ${digest?.actual}`
+      )
+      logger.warn(`⚠️ ${error.message}`)
+      await writeErrorToFile(
+        sourceDir,
+        'attachments',
+        errorFileName,
+        error,
+        logger,
+        { ...entry, ...digest, actualSize: content.length }
+      )
+    }
+    progressBar?.increment()
+  }
+
+  for (const key of unindexed) {
+    const filePath = `${store.location}/${key}`
+    const errorFileName = `${path.basename(key)}.json`
+    summary.unindexed++
+
+    let content: Buffer
+    try {
+      content = await store.read(key)
+    } catch (error) {
+      summary.missing++
+      logger.warn(`⚠️ Attachment file is unreadable: ${filePath}`)
+      await writeErrorToFile(
+        sourceDir,
+        'attachments',
+        errorFileName,
+        error,
+        logger,
+        { path: key }
+      )
+      progressBar?.increment()
+      continue
+    }
+
+    const check = verifyAttachmentFilename(key, content)
+    if (check.matches) {
+      summary.verified++
+      logger.log(`✅ attachment: ${key} (not in cache index)`)
+    } else {
+      summary.mismatched++
+      const error = new Error(
+        `SHA-1 mismatch for attachment file ${key}: expected ${check.expected}, got ${check.actual}`
+      )
+      logger.warn(`⚠️ ${error.message}`)
+      await writeErrorToFile(
+        sourceDir,
+        'attachments',
+        errorFileName,
+        error,
+        logger,
+        { path: key, ...check, actualSize: content.length }
+      )
+    }
+    progressBar?.increment()
+  }
+
+  if (progressBar) {
+    progressBar.stop()
+  }
+
+  if (summary.mismatched > 0 || summary.missing > 0) {
+    logger.info(`📁 Details written to ${sourceDir}/errors/attachments`)
+  }
+
+  return summary
+}
+
+/**
+ * Verify every cached attachment against the digest in its document ID
+ * The cache is walked the way build-cache writes it: each keyspace in its
+ * own "<scope>/<collection>" sub-folder (the default collection in the
+ * root), and with several buckets each bucket in "<sourceDir>/<bucket>"
+ * @param options Options for cache verification
+ * @returns Summary of the verification, over every bucket and keyspace
+ */
+export async function verifyCache(
+  options: {
+    sourceDir?: string
+    buckets?: string[] // Default: COUCHBASE_BUCKET_NAME
+    keyspaces?: Keyspace[] // Default: every configured keyspace
+    debug?: boolean
+  } = {}
+): Promise<VerifyCacheSummary> {
+  const { sourceDir = './tmp', buckets = [], debug = false } = options
+  const logger = new Logger(debug)
+
+  logger.info('🔍 Verifying cached attachments...')
+  logger.info(`📁 Source directory: ${sourceDir}`)
+
+  const summary: VerifyCacheSummary = {
+    verified: 0,
+    mismatched: 0,
+    missing: 0,
+    unindexed: 0,
+  }
+
+  // A single bucket is cached in the source directory itself
+  const multipleBuckets = buckets.length > 1
+  const bucketNames =
+    buckets.length > 0 ? buckets : [getClient({ debug }).getConfig().bucketName]
+  for (const bucketName of bucketNames) {
+    const bucketDir = multipleBuckets
+      ? joinCacheLocation(sourceDir, bucketName)
+      : sourceDir
+    if (multipleBuckets) {
+      logger.info(`\n🪣 Bucket ${bucketName}`)
+    }
+    const keyspaces =
+      options.keyspaces ?? getClient({ debug, bucketName }).getKeyspaces()
+    for (const keyspace of keyspaces) {
+      const folder = getKeyspaceFolder(keyspace)
+      const store = openCacheStore(joinCacheLocation(bucketDir, folder))
+      if (keyspaces.length > 1 || folder) {
+        logger.info(
+          `\n🗂️ Keyspace ${keyspace.scope}.${keyspace.collection} (${store.location})`
+        )
+      }
+      const storeSummary = await verifyStore(store, logger, debug)
+      summary.verified += storeSummary.verified
+      summary.mismatched += storeSummary.mismatched
+      summary.missing += storeSummary.missing
+      summary.unindexed += storeSummary.unindexed
+    }
+  }
+
+  logger.info('\n📊 Verification Summary:')
+  logger.info(`✅ Verified: ${summary.verified}`)
+  logger.info(`❌ SHA-1 mismatch: ${summary.mismatched}`)
+  logger.info(`🕳️ Missing from disk: ${summary.missing}`)
+  logger.info(
+    `📇 Not in cache index (checked by filename): ${summary.unindexed}`
+  )
+
+  return summary
+}
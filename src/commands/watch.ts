@@ -0,0 +1,327 @@
+/**
+ * Watch Module
+ *
+ * Keeps the cache (and optionally Core) in step with Couchbase while the old
+ * apps are still writing to it, by polling for documents whose Sync Gateway
+ * sequence is newer than the last one cached
+ */
+
+import { CacheArchiveWriter } from '../lib/cache-archive.js'
+import { CacheIndex } from '../lib/cache-index.js'
+import { joinCacheLocation, openCacheStore } from '../lib/cache-store.js'
+import {
+  getClient,
+  getKeyspaceFolder,
+  type Keyspace,
+} from '../lib/couchbase.js'
+import {
+  CACHE_DIR,
+  getChangedDocuments,
+  getLatestSequence,
+  processDocuments,
+  type DocumentFilter,
+} from '../lib/document-processor.js'
+import { clearErrorsDirectory } from '../lib/error-handler.js'
+import { Logger } from '../lib/logger.js'
+import { readWatchState, writeWatchState } from '../lib/watch-state.js'
+import { getCacheFormat } from './buildCache.js'
+import { ingestPlaylists } from './ingest/playlists.js'
+import { DEFAULT_RULES_FILE, IngestRules } from './ingest/rules.js'
+import { ingestUsers } from './ingest/users.js'
+
+/**
+ * ID prefixes watched by default - the documents the ingest pipelines read
+ */
+export const DEFAULT_WATCH_PREFIXES = ['pl_', 'user_', 'u_']
+
+export interface WatchSummary {
+  polls: number
+  written: number
+  unchanged: number
+  failed: number
+  ingested: number
+  ingestFailed: number
+  sequence: number
+}
+
+/**
+ * Wait for the poll interval, or until the watch is stopped
+ * @param ms Interval in milliseconds
+ * @param signal Aborted when the watch is stopped
+ */
+function waitForNextPoll(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true }
+    )
+  })
+}
+
+// Error folders the ingest pipelines write to
+const INGEST_ERROR_CATEGORIES = ['users', 'playlists', 'playListItems']
+
+/**
+ * Push changed documents through the ingest pipelines
+ * Error files are kept between polls - watch clears them once at startup
+ * @param ids IDs of the changed documents
+ * @param keyspace Keyspace the documents were read from
+ * @param options Ingest options
+ * @returns Number of documents ingested and failed
+ */
+async function ingestChanges(
+  ids: string[],
+  keyspace: Keyspace,
+  options: {
+    sourceDir: string
+    dryRun: boolean
+    rules: IngestRules
+    concurrency: number
+    debug: boolean
+  }
+): Promise<{ ingested: number; failed: number }> {
+  const userIds = ids.filter(
+    id => id.startsWith('user_') || id.startsWith('u_')
+  )
+  const playlistIds = ids.filter(id => id.startsWith('pl_'))
+
+  let ingested = 0
+  let failed = 0
+  if (userIds.length > 0) {
+    const summary = await ingestUsers({
+      ...options,
+      clearErrors: false,
+      from: 'couchbase',
+      ids: userIds,
+      keyspace,
+    })
+    ingested += summary?.successCount ?? 0
+    failed += summary?.errorCount ?? 0
+  }
+  if (playlistIds.length > 0) {
+    const summary = await ingestPlaylists({
+      ...options,
+      clearErrors: false,
+      from: 'couchbase',
+      ids: playlistIds,
+      keyspace,
+    })
+    ingested += summary?.successCount ?? 0
+    failed += summary?.errorCount ?? 0
+  }
+  return { ingested, failed }
+}
+
+/**
+ * Watch Couchbase for changed documents and rewrite them in the cache
+ * Runs until interrupted (Ctrl+C), or for a single poll with once
+ * @param options Options for watching
+ * @returns Summary of the watch
+ */
+export async function watch(
+  options: {
+    cacheDir?: string
+    since?: number
+    includePrefixes?: string[]
+    keyspace?: Keyspace // Default: the first configured keyspace
+    interval?: number
+    ingest?: boolean
+    dryRun?: boolean
+    rulesFile?: string // Rules the ingest pipelines apply (default: DEFAULT_RULES_FILE)
+    once?: boolean
+    concurrency?: number
+    debug?: boolean
+  } = {}
+): Promise<WatchSummary> {
+  const {
+    cacheDir = CACHE_DIR,
+    includePrefixes = DEFAULT_WATCH_PREFIXES,
+    interval = 30,
+    ingest = false,
+    dryRun = false,
+    rulesFile = DEFAULT_RULES_FILE,
+    once = false,
+    concurrency = 10,
+    debug = false,
+  } = options
+  const logger = new Logger(debug)
+
+  const client = getClient({ debug })
+
+  // Stop after the current poll on Ctrl+C instead of mid-write
+  const controller = new AbortController()
+  const stop = () => {
+    logger.info('\n🛑 Stopping after the current poll...')
+    controller.abort()
+  }
+  process.once('SIGINT', stop)
+  process.once('SIGTERM', stop)
+
+  try {
+    await client.connect()
+
+    const keyspace = options.keyspace ?? client.getKeyspaces()[0]
+    if (!keyspace) {
+      throw new Error('No keyspaces configured')
+    }
+    const filter: DocumentFilter = { keyspace, includePrefixes }
+    const store = openCacheStore(
+      joinCacheLocation(cacheDir, getKeyspaceFolder(keyspace))
+    )
+    const index = await CacheIndex.load(store, logger)
+    const format = getCacheFormat(index) ?? 'files'
+    const archive = new CacheArchiveWriter(store)
+    const { bucketName } = client.getConfig()
+    const rules = ingest ? await IngestRules.load(rulesFile) : null
+
+    // Start from --since, then the last watch, then the newest document
+    let sequence = options.since
+    if (sequence === undefined) {
+      const state = await readWatchState(store, logger)
+      if (state && state.bucketName !== bucketName) {
+        throw new Error(
+          `Watch state was written for bucket ${state.bucketName}, not ${bucketName}`
+        )
+      }
+      sequence =
+        state?.sequence ?? (await getLatestSequence(client, logger, filter))
+    }
+
+    logger.info('👀 Watching Couchbase for changes...')
+    logger.info(`🗂️ Keyspace: ${keyspace.scope}.${keyspace.collection}`)
+    logger.info(`📁 Cache location: ${store.location}`)
+    logger.info(`🔎 ID prefixes: ${includePrefixes.join(', ')}`)
+    logger.info(`🔢 Starting after sequence ${sequence}`)
+    if (!once) {
+      logger.info(`⏱️ Polling every ${interval}s (Ctrl+C to stop)`)
+    }
+    if (ingest) {
+      logger.info(
+        `📥 Changed documents are ingested into Core${dryRun ? ' (dry run)' : ''}`
+      )
+      logger.info(`📋 Rules file: ${rulesFile}`)
+      for (const category of INGEST_ERROR_CATEGORIES) {
+        await clearErrorsDirectory(store.location, category, logger)
+      }
+    }
+
+    const saveSequence = (sequence: number) =>
+      writeWatchState(store, {
+        bucketName,
+        sequence,
+        updatedAt: new Date().toISOString(),
+      })
+
+    const summary: WatchSummary = {
+      polls: 0,
+      written: 0,
+      unchanged: 0,
+      failed: 0,
+      ingested: 0,
+      ingestFailed: 0,
+      sequence,
+    }
+
+    while (!controller.signal.aborted) {
+      summary.polls++
+      const changedIds: string[] = []
+
+      let hasMore = true
+      while (hasMore) {
+        const page = await getChangedDocuments(client, logger, {
+          since: sequence,
+          limit: 1000,
+          filter,
+        })
+
+        const pageResult = await processDocuments(
+          page.documents,
+          client,
+          store,
+          logger,
+          {
+            concurrency,
+            index,
+            ...(format === 'archive' && { archive }),
+            incremental: true,
+            keyspace,
+          }
+        )
+        summary.written += pageResult.documentsProcessed
+        summary.unchanged += pageResult.documentsSkipped
+        summary.failed += pageResult.documentsFailed
+        changedIds.push(...page.documents.map(doc => doc.id))
+
+        sequence = page.nextSince
+        summary.sequence = sequence
+        await archive.flush()
+        await index.flush()
+        // Record progress after every page so a restart doesn't rewrite it.
+        // With --ingest it waits until the documents have been ingested
+        if (!rules) {
+          await saveSequence(sequence)
+        }
+        hasMore = page.hasMore
+      }
+
+      if (changedIds.length > 0) {
+        logger.info(
+          `🔄 ${new Date().toISOString()}: ${changedIds.length} changed documents cached (up to sequence ${sequence})`
+        )
+        if (rules) {
+          const result = await ingestChanges(changedIds, keyspace, {
+            sourceDir: store.location,
+            dryRun,
+            rules,
+            concurrency,
+            debug,
+          })
+          summary.ingested += result.ingested
+          summary.ingestFailed += result.failed
+        }
+      } else {
+        logger.log(`💤 No changes after sequence ${sequence}`)
+      }
+      if (rules) {
+        await saveSequence(sequence)
+      }
+
+      if (once) {
+        break
+      }
+      await waitForNextPoll(interval * 1000, controller.signal)
+    }
+
+    await archive.compact(logger)
+    await index.compact()
+
+    logger.info('\n📊 Watch Summary:')
+    logger.info(`🔁 Polls: ${summary.polls}`)
+    logger.info(`✅ Documents written: ${summary.written}`)
+    logger.info(`💤 Documents unchanged: ${summary.unchanged}`)
+    logger.info(`❌ Documents failed: ${summary.failed}`)
+    if (ingest) {
+      logger.info(`📥 Documents ingested: ${summary.ingested}`)
+      logger.info(`❌ Documents failed to ingest: ${summary.ingestFailed}`)
+    }
+    logger.info(`🔢 Last sequence: ${summary.sequence}`)
+
+    return summary
+  } catch (error) {
+    logger.error('❌ Error while watching for changes:', error)
+    throw error
+  } finally {
+    process.off('SIGINT', stop)
+    process.off('SIGTERM', stop)
+    try {
+      await client.disconnect()
+    } catch (disconnectError) {
+      logger.error('❌ Error disconnecting:', disconnectError)
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { buildAttachmentMap } from './attachment-map.js'
+import { CacheIndex, type CacheIndexEntry } from './cache-index.js'
+import { LocalCacheStore } from './cache-store.js'
+import type { CouchbaseClient } from './couchbase.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+/**
+ * Stand-in for a Couchbase client whose bucket holds only the given IDs
+ */
+function createExistsClient(ids: string[]): {
+  client: CouchbaseClient
+  lookups: string[]
+} {
+  const lookups: string[] = []
+  const collection = {
+    exists: async (id: string) => {
+      lookups.push(id)
+      return { exists: ids.includes(id) }
+    },
+  }
+  const client = {
+    getConfig: () => ({ bucketName: 'test', operationTimeout: 1000 }),
+    getCollection: async () => collection,
+    withRetry: <T>(fn: () => Promise<T>) => fn(),
+  } as unknown as CouchbaseClient
+  return { client, lookups }
+}
+
+function indexEntry(
+  id: string,
+  entryPath: string,
+  type = 'json'
+): CacheIndexEntry {
+  return {
+    id,
+    cas: '1',
+    path: entryPath,
+    size: 2,
+    sha256: '',
+    type,
+    fetchedAt: new Date(0).toISOString(),
+  }
+}
+
+describe('buildAttachmentMap', () => {
+  let cacheDir: string
+  let store: LocalCacheStore
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachment-map-'))
+    store = new LocalCacheStore(cacheDir)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  const writeDocument = async (
+    index: CacheIndex,
+    id: string,
+    attachments: Record<string, string>
+  ) => {
+    const entryPath = `${id}.json`
+    const body = {
+      _attachments: Object.fromEntries(
+        Object.entries(attachments).map(([name, digest]) => [
+          name,
+          { digest, content_type: 'image/png', length: 2 },
+        ])
+      ),
+    }
+    await store.write(entryPath, JSON.stringify({ cas: '1', test: body }))
+    index.set(indexEntry(id, entryPath))
+  }
+
+  it('links documents to cached, uncached and missing attachments', async () => {
+    const index = await CacheIndex.load(store, logger)
+    index.set(
+      indexEntry('_sync:att:sha1-cached', '_sync/att/sha1-cached.png', 'png')
+    )
+    await writeDocument(index, 'doc_1', {
+      'a.png': 'sha1-cached',
+      'b.png': 'sha1-gone',
+    })
+    await writeDocument(index, 'doc_2', {
+      'c.png': 'sha1-gone',
+      'd.png': 'sha1-remote',
+    })
+    const { client, lookups } = createExistsClient(['_sync:att:sha1-remote'])
+
+    const map = await buildAttachmentMap(client, index, store, logger)
+
+    assert.deepEqual(
+      map.documents['doc_1']?.attachments.map(({ name, status, path }) => ({
+        name,
+        status,
+        path,
+      })),
+      [
+        { name: 'a.png', status: 'cached', path: '_sync/att/sha1-cached.png' },
+        { name: 'b.png', status: 'missing', path: null },
+      ]
+    )
+    assert.equal(map.documents['doc_2']?.attachments[1]?.status, 'not-cached')
+    assert.deepEqual(map.missing, [
+      {
+        id: '_sync:att:sha1-gone',
+        digest: 'sha1-gone',
+        referencedBy: ['doc_1', 'doc_2'],
+      },
+    ])
+    assert.deepEqual(lookups.sort(), [
+      '_sync:att:sha1-gone',
+      '_sync:att:sha1-remote',
+    ])
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * Attachment Map
+ *
+ * Links cached JSON documents to the Sync Gateway attachment blobs they
+ * reference. Sync Gateway keeps attachment metadata (digest, content type,
+ * length) in each document's `_attachments` map - and in `_sync.attachments`
+ * for documents written by newer versions - while the content itself is
+ * stored as a separate `_sync:att:<digest>` document
+ */
+
+import { z } from 'zod'
+import { CacheIndex } from './cache-index.js'
+import { openCacheReader } from './cache-reader.js'
+import { CacheStore } from './cache-store.js'
+import { CouchbaseClient, type Keyspace } from './couchbase.js'
+import { Logger } from './logger.js'
+
+const ATTACHMENT_MAP_FILENAME = 'attachment-map.json'
+
+const AttachmentMetadataSchema = z.object({
+  digest: z.string(),
+  content_type: z.string().optional(),
+  length: z.number().optional(),
+})
+
+const AttachmentsSchema = z.record(z.string(), AttachmentMetadataSchema)
+
+const DocumentBodySchema = z.object({
+  _attachments: AttachmentsSchema.optional(),
+  _sync: z.object({ attachments: AttachmentsSchema.optional() }).optional(),
+})
+
+/**
+ * Whether a referenced attachment is cached, still to be downloaded, or
+ * missing from the bucket altogether
+ */
+export type AttachmentStatus = 'cached' | 'not-cached' | 'missing'
+
+export interface AttachmentReference {
+  name: string // Attachment name within the document
+  digest: string // e.g. "sha1-<base64>"
+  id: string // Couchbase document ID of the attachment blob
+  contentType: string | null // Declared content type
+  length: number | null // Declared length in bytes
+  path: string | null // Cache store key of the cached file
+  status: AttachmentStatus
+}
+
+export interface AttachmentMap {
+  generatedAt: string
+  documents: Record<
+    string,
+    { path: string; attachments: AttachmentReference[] }
+  >
+  missing: { id: string; digest: string; referencedBy: string[] }[]
+}
+
+/**
+ * Get the document ID Sync Gateway stores an attachment's content under
+ * @param digest Attachment digest
+ * @returns Attachment document ID
+ */
+function getAttachmentId(digest: string): string {
+  return `_sync:att:${digest}`
+}
+
+/**
+ * Read the attachment metadata declared by a cached JSON document
+ * @param content Parsed cache file ({ cas, [bucketName]: body })
+ * @param bucketName Bucket the document was cached from
+ * @returns Attachment metadata keyed by attachment name
+ */
+function getDeclaredAttachments(
+  content: unknown,
+  bucketName: string
+): z.infer<typeof AttachmentsSchema> {
+  const body =
+    content !== null && typeof content === 'object'
+      ? (content as Record<string, unknown>)[bucketName]
+      : undefined
+  const parseResult = DocumentBodySchema.safeParse(body)
+  if (!parseResult.success) {
+    return {}
+  }
+  // Prefer the public _attachments map where both are present
+  return {
+    ...parseResult.data._sync?.attachments,
+    ...parseResult.data._attachments,
+  }
+}
+
+/**
+ * Build the map from cached JSON documents to their attachments
+ * Every referenced digest that hasn't been cached is looked up in the bucket
+ * so digests that are referenced but missing can be flagged
+ * @param client Couchbase client instance
+ * @param index Cache index of the cache store
+ * @param store Cache store
+ * @param logger Logger instance
+ * @param options Lookup options (keyspace the documents were cached from)
+ * @returns The attachment map
+ */
+export async function buildAttachmentMap(
+  client: CouchbaseClient,
+  index: CacheIndex,
+  store: CacheStore,
+  logger: Logger,
+  options?: { concurrency?: number; keyspace?: Keyspace }
+): Promise<AttachmentMap> {
+  const { concurrency = 10, keyspace } = options ?? {}
+  const { bucketName, operationTimeout } = client.getConfig()
+
+  const reader = openCacheReader(store, logger)
+  const documents: AttachmentMap['documents'] = {}
+  const referencedBy: Map<string, string[]> = new Map()
+
+  for (const entry of index.values()) {
+    if (entry.type !== 'json') continue
+
+    let content: unknown
+    try {
+      content = JSON.parse(await reader.read(entry.path))
+    } catch (error) {
+      logger.warn(`⚠️ Could not read ${entry.path}:`, error)
+      continue
+    }
+
+    const declared = getDeclaredAttachments(content, bucketName)
+    const names = Object.keys(declared).sort()
+    if (names.length === 0) continue
+
+    const attachments: AttachmentReference[] = []
+    for (const name of names) {
+      const metadata = declared[name]
+      if (!metadata) continue
+      const id = getAttachmentId(metadata.digest)
+      const cached = index.get(id)
+      attachments.push({
+        name,
+        digest: metadata.digest,
+        id,
+        contentType: metadata.content_type ?? null,
+        length: metadata.length ?? null,
+        path: cached?.path ?? null,
+        status: cached ? 'cached' : 'not-cached',
+      })
+      const documentIds = referencedBy.get(id)
+      if (documentIds) {
+        documentIds.push(entry.id)
+      } else {
+        referencedBy.set(id, [entry.id])
+      }
+    }
+    documents[entry.id] = { path: entry.path, attachments }
+  }
+
+  // Look up attachments that haven't been downloaded in the bucket
+  const uncachedIds = Array.from(referencedBy.keys()).filter(
+    id => !index.get(id)
+  )
+  const missingIds: Set<string> = new Set()
+  for (let i = 0; i < uncachedIds.length; i += concurrency) {
+    const batch = uncachedIds.slice(i, i + concurrency)
+    const results = await Promise.allSettled(
+      batch.map(id =>
+        client.withRetry(async () => {
+          const collection = await client.getCollection(keyspace)
+          return collection.exists(id, { timeout: operationTimeout })
+        }, logger)
+      )
+    )
+    results.forEach((result, batchIndex) => {
+      const id = batch[batchIndex]
+      if (id === undefined) return
+      if (result.status === 'rejected') {
+        logger.warn(`⚠️ Could not check attachment ${id}:`, result.reason)
+      } else if (!result.value.exists) {
+        missingIds.add(id)
+      }
+    })
+  }
+
+  for (const { attachments } of Object.values(documents)) {
+    for (const attachment of attachments) {
+      if (missingIds.has(attachment.id)) {
+        attachment.status = 'missing'
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    documents,
+    missing: Array.from(missingIds)
+      .sort()
+      .map(id => ({
+        id,
+        digest: id.substring('_sync:att:'.length),
+        referencedBy: referencedBy.get(id) ?? [],
+      })),
+  }
+}
+
+/**
+ * Write the attachment map to the cache store
+ * @param store Cache store
+ * @param attachmentMap Attachment map to write
+ * @returns Location of the written file
+ */
+export async function writeAttachmentMap(
+  store: CacheStore,
+  attachmentMap: AttachmentMap
+): Promise<string> {
+  await store.write(
+    ATTACHMENT_MAP_FILENAME,
+    JSON.stringify(attachmentMap, null, 2)
+  )
+  return `${store.location}/${ATTACHMENT_MAP_FILENAME}`
+}
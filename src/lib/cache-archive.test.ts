@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  CacheArchiveWriter,
+  getArchiveSegment,
+  readArchiveSegment,
+} from './cache-archive.js'
+import { openCacheReader } from './cache-reader.js'
+import { LocalCacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+describe('getArchiveSegment', () => {
+  it('uses the top-level folder', () => {
+    assert.equal(getArchiveSegment('pl/123.json'), 'pl')
+    assert.equal(getArchiveSegment('_sync/att/x.png'), '_sync')
+    assert.equal(getArchiveSegment('plain.json'), '_root')
+  })
+})
+
+describe('CacheArchiveWriter', () => {
+  let cacheDir: string
+  let store: LocalCacheStore
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-archive-'))
+    store = new LocalCacheStore(cacheDir)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('replays flushed records with the last record for a path winning', async () => {
+    const archive = new CacheArchiveWriter(store)
+    archive.write({
+      id: 'pl_1',
+      path: 'pl/1.json',
+      cas: '1',
+      content: { v: 1 },
+    })
+    archive.write({
+      id: 'pl_2',
+      path: 'pl/2.json',
+      cas: '1',
+      content: { v: 1 },
+    })
+    await archive.flush()
+    archive.write({
+      id: 'pl_1',
+      path: 'pl/1.json',
+      cas: '2',
+      content: { v: 2 },
+    })
+    archive.delete('pl_2', 'pl/2.json')
+    await archive.flush()
+
+    const records = await readArchiveSegment(store, 'pl', logger)
+    assert.deepEqual(Array.from(records?.keys() ?? []), ['pl/1.json'])
+    assert.equal(records?.get('pl/1.json')?.cas, '2')
+    assert.equal(await readArchiveSegment(store, 'user', logger), null)
+  })
+
+  it('keeps the same records through a compact', async () => {
+    const archive = new CacheArchiveWriter(store)
+    archive.write({
+      id: 'pl_1',
+      path: 'pl/1.json',
+      cas: '1',
+      content: { v: 1 },
+    })
+    await archive.flush()
+    archive.write({
+      id: 'pl_1',
+      path: 'pl/1.json',
+      cas: '2',
+      content: { v: 2 },
+    })
+    await archive.compact(logger)
+
+    const records = await readArchiveSegment(store, 'pl', logger)
+    assert.equal(records?.size, 1)
+    assert.deepEqual(records?.get('pl/1.json')?.content, { v: 2 })
+  })
+
+  it('is read through the cache reader like loose files', async () => {
+    const archive = new CacheArchiveWriter(store)
+    archive.write({
+      id: 'pl_1',
+      path: 'pl/1.json',
+      cas: '1',
+      content: { v: 1 },
+    })
+    await archive.flush()
+    await store.write('user/1.json', '{"v":1}')
+
+    const reader = openCacheReader(store, logger)
+    assert.deepEqual(await reader.list('pl'), ['pl/1.json'])
+    assert.deepEqual(JSON.parse(await reader.read('pl/1.json')), { v: 1 })
+    assert.deepEqual(await reader.list('user'), ['user/1.json'])
+    assert.equal(await reader.hasFolder('mc'), false)
+  })
+})
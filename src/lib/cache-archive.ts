@@ -0,0 +1,175 @@
+/**
+ * Cache Archive
+ *
+ * Alternative to the one-file-per-document cache layout: JSON documents are
+ * written to gzipped NDJSON segments, one per top-level cache folder
+ * (archive/pl.ndjson.gz, archive/user.ndjson.gz, ...), so a full cache is a
+ * handful of files that can be copied between machines quickly. Each flush
+ * appends a gzip member to the segments it touched; when a segment is read
+ * the last record for a path wins and deletion records remove it
+ */
+
+import { createInterface } from 'readline'
+import { Readable } from 'stream'
+import { createGunzip, gzipSync } from 'zlib'
+import { CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const ARCHIVE_DIRNAME = 'archive'
+const ARCHIVE_EXTENSION = '.ndjson.gz'
+const ROOT_SEGMENT = '_root'
+const COMPACT_MEMBER_LINES = 1000
+
+export interface CacheArchiveRecord {
+  id: string // Original Couchbase document ID
+  path: string // Key the document has in the directory layout
+  cas: string
+  content: unknown
+}
+
+type CacheArchiveLine =
+  | CacheArchiveRecord
+  | { id: string; path: string; deleted: true }
+
+/**
+ * Get the segment a cache path is archived in (its top-level folder)
+ * @param cachePath Cache store key (e.g. "pl/123.json")
+ * @returns Segment name (e.g. "pl")
+ */
+export function getArchiveSegment(cachePath: string): string {
+  const [folder, ...rest] = cachePath.split('/')
+  return folder && rest.length > 0 ? folder : ROOT_SEGMENT
+}
+
+/**
+ * Get the cache store key of an archive segment
+ * @param segment Segment name
+ * @returns Segment key
+ */
+function getSegmentKey(segment: string): string {
+  return `${ARCHIVE_DIRNAME}/${segment}${ARCHIVE_EXTENSION}`
+}
+
+/**
+ * Read an archive segment, replaying its records
+ * @param store Cache store
+ * @param segment Segment name
+ * @param logger Logger instance
+ * @returns Records keyed by cache path, or null if the segment doesn't exist
+ */
+export async function readArchiveSegment(
+  store: CacheStore,
+  segment: string,
+  logger: Logger
+): Promise<Map<string, CacheArchiveRecord> | null> {
+  const segmentKey = getSegmentKey(segment)
+  if (!(await store.exists(segmentKey))) {
+    return null
+  }
+
+  const records: Map<string, CacheArchiveRecord> = new Map()
+  let invalidLines = 0
+  const lines = createInterface({
+    input: Readable.from([await store.read(segmentKey)]).pipe(createGunzip()),
+    crlfDelay: Infinity,
+  })
+  for await (const line of lines) {
+    if (line.trim() === '') continue
+    try {
+      const archiveLine = JSON.parse(line) as CacheArchiveLine
+      if ('deleted' in archiveLine) {
+        records.delete(archiveLine.path)
+      } else {
+        records.set(archiveLine.path, archiveLine)
+      }
+    } catch {
+      invalidLines++
+    }
+  }
+
+  if (invalidLines > 0) {
+    logger.warn(
+      `⚠️ Ignored ${invalidLines} unreadable line(s) in ${store.location}/${segmentKey}`
+    )
+  }
+
+  return records
+}
+
+/**
+ * Buffers archive records and appends them to their segments on flush
+ */
+export class CacheArchiveWriter {
+  private pendingLines: Map<string, string[]> = new Map()
+  private touchedSegments: Set<string> = new Set()
+  private store: CacheStore
+
+  constructor(store: CacheStore) {
+    this.store = store
+  }
+
+  /**
+   * Queue a line for a segment (internal method)
+   */
+  private append(cachePath: string, line: CacheArchiveLine): void {
+    const segment = getArchiveSegment(cachePath)
+    const lines = this.pendingLines.get(segment) ?? []
+    lines.push(JSON.stringify(line))
+    this.pendingLines.set(segment, lines)
+  }
+
+  /**
+   * Record (or replace) a document
+   */
+  write(record: CacheArchiveRecord): void {
+    this.append(record.path, record)
+  }
+
+  /**
+   * Remove a document
+   */
+  delete(id: string, cachePath: string): void {
+    this.append(cachePath, { id, path: cachePath, deleted: true })
+  }
+
+  /**
+   * Append records written since the last flush to their segments
+   */
+  async flush(): Promise<void> {
+    if (this.pendingLines.size === 0) {
+      return
+    }
+    const pendingLines = this.pendingLines
+    this.pendingLines = new Map()
+    for (const [segment, lines] of pendingLines) {
+      await this.store.append(
+        getSegmentKey(segment),
+        gzipSync(`${lines.join('\n')}\n`)
+      )
+      this.touchedSegments.add(segment)
+    }
+  }
+
+  /**
+   * Rewrite every segment flushed to by this writer with one line per
+   * current document
+   * @param logger Logger instance
+   */
+  async compact(logger: Logger): Promise<void> {
+    await this.flush()
+    for (const segment of this.touchedSegments) {
+      const records = await readArchiveSegment(this.store, segment, logger)
+      const lines = Array.from(records?.values() ?? []).map(record =>
+        JSON.stringify(record)
+      )
+      // Compress in chunks - concatenated gzip members form a valid segment
+      const members: Buffer[] = []
+      for (let i = 0; i < lines.length; i += COMPACT_MEMBER_LINES) {
+        const chunk = lines.slice(i, i + COMPACT_MEMBER_LINES)
+        members.push(gzipSync(`${chunk.join('\n')}\n`))
+      }
+      await this.store.write(getSegmentKey(segment), Buffer.concat(members))
+    }
+    this.touchedSegments.clear()
+  }
+}
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  CacheIndex,
+  resolveCachedFile,
+  type CacheIndexEntry,
+} from './cache-index.js'
+import { LocalCacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+function indexEntry(
+  id: string,
+  entryPath: string,
+  cas: string = '1'
+): CacheIndexEntry {
+  return {
+    id,
+    cas,
+    path: entryPath,
+    size: 2,
+    sha256: '',
+    type: 'json',
+    fetchedAt: new Date(0).toISOString(),
+  }
+}
+
+async function readJournal(store: LocalCacheStore): Promise<string[]> {
+  const content = (await store.read('.cache-index.ndjson')).toString('utf8')
+  return content.split('\n').filter(line => line !== '')
+}
+
+describe('CacheIndex', () => {
+  let cacheDir: string
+  let store: LocalCacheStore
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-index-'))
+    store = new LocalCacheStore(cacheDir)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('loads empty when there is no journal', async () => {
+    const index = await CacheIndex.load(store, logger)
+    assert.equal(index.size, 0)
+  })
+
+  it('replays the journal with the last line for an ID winning', async () => {
+    const index = await CacheIndex.load(store, logger)
+    index.set(indexEntry('pl_1', 'pl/1.json', '1'))
+    index.set(indexEntry('pl_2', 'pl/2.json'))
+    await index.flush()
+    index.set(indexEntry('pl_1', 'pl/1.json', '2'))
+    index.delete('pl_2')
+    await index.flush()
+
+    assert.equal((await readJournal(store)).length, 4)
+
+    const reloaded = await CacheIndex.load(store, logger)
+    assert.deepEqual(reloaded.sortedIds(), ['pl_1'])
+    assert.equal(reloaded.get('pl_1')?.cas, '2')
+    assert.equal(reloaded.getIdByPath('pl/1.json'), 'pl_1')
+    assert.equal(reloaded.getIdByPath('pl/2.json'), undefined)
+  })
+
+  it('ignores a truncated last line', async () => {
+    await store.write(
+      '.cache-index.ndjson',
+      `${JSON.stringify(indexEntry('pl_1', 'pl/1.json'))}\n{"id":"pl_2","ca`
+    )
+    const index = await CacheIndex.load(store, logger)
+    assert.deepEqual(index.sortedIds(), ['pl_1'])
+  })
+
+  it('only records deletes of indexed documents', async () => {
+    const index = await CacheIndex.load(store, logger)
+    index.delete('pl_1')
+    await index.flush()
+    assert.equal(await store.exists('.cache-index.ndjson'), false)
+  })
+
+  it('compacts the journal to one line per document', async () => {
+    const index = await CacheIndex.load(store, logger)
+    index.set(indexEntry('pl_1', 'pl/1.json', '1'))
+    index.set(indexEntry('pl_1', 'pl/1.json', '2'))
+    index.set(indexEntry('pl_2', 'pl/2.json'))
+    index.delete('pl_2')
+    await index.flush()
+    await index.compact()
+
+    const lines = await readJournal(store)
+    assert.equal(lines.length, 1)
+    assert.equal((JSON.parse(lines[0] ?? '') as CacheIndexEntry).cas, '2')
+
+    const reloaded = await CacheIndex.load(store, logger)
+    assert.deepEqual(reloaded.sortedIds(), ['pl_1'])
+  })
+
+  it('frees a path when its document moves', async () => {
+    const index = await CacheIndex.load(store, logger)
+    index.set(indexEntry('a:b:x', 'a/b/x.json'))
+    index.set(indexEntry('a:b:x', 'a/b/x-1.json'))
+    assert.equal(index.getIdByPath('a/b/x.json'), undefined)
+    assert.equal(index.getIdByPath('a/b/x-1.json'), 'a:b:x')
+  })
+})
+
+describe('resolveCachedFile', () => {
+  it('resolves IDs in the given folders', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resolve-'))
+    try {
+      const store = new LocalCacheStore(cacheDir)
+      const index = await CacheIndex.load(store, logger)
+      index.set(indexEntry('pl_1', 'pl/1.json'))
+      await index.flush()
+
+      assert.equal(
+        await resolveCachedFile(store, 'pl_1', ['pl'], logger),
+        'pl/1.json'
+      )
+      assert.equal(await resolveCachedFile(store, 'pl_1', ['u'], logger), null)
+      assert.equal(await resolveCachedFile(store, 'pl_2', ['pl'], logger), null)
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Cache Index
+ *
+ * Manifest of the cache directory: records which Couchbase document produced
+ * which cache file, with its CAS, size, content hash and type. Persisted as an
+ * append-only NDJSON journal in the cache directory so each page can be
+ * recorded cheaply; when the journal is replayed the last line for an ID wins.
+ */
+
+import { CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const INDEX_FILENAME = '.cache-index.ndjson'
+
+export interface CacheIndexEntry {
+  id: string // Original Couchbase document ID
+  cas: string
+  path: string // Cache store key, relative to the cache location
+  size: number // File size in bytes
+  sha256: string // Hex digest of the file content
+  type: string // 'json' for documents, detected MIME type for attachments
+  fetchedAt: string // ISO date-time
+  archived?: boolean // Written to an archive segment rather than to path
+}
+
+type CacheIndexJournalLine = CacheIndexEntry | { id: string; deleted: true }
+
+export class CacheIndex {
+  private entries: Map<string, CacheIndexEntry> = new Map()
+  private idsByPath: Map<string, string> = new Map()
+  private pendingLines: string[] = []
+  private store: CacheStore
+
+  private constructor(store: CacheStore) {
+    this.store = store
+  }
+
+  /**
+   * Load the index for a cache store, replaying its journal
+   * @param store Cache store
+   * @param logger Logger instance
+   * @returns Cache index (empty if no journal exists yet)
+   */
+  public static async load(
+    store: CacheStore,
+    logger: Logger
+  ): Promise<CacheIndex> {
+    const index = new CacheIndex(store)
+
+    let fileContent: string
+    try {
+      fileContent = (await store.read(INDEX_FILENAME)).toString('utf8')
+    } catch {
+      return index
+    }
+
+    let invalidLines = 0
+    for (const line of fileContent.split('\n')) {
+      if (line.trim() === '') continue
+      try {
+        const journalLine = JSON.parse(line) as CacheIndexJournalLine
+        if ('deleted' in journalLine) {
+          index.remove(journalLine.id)
+        } else {
+          index.add(journalLine)
+        }
+      } catch {
+        // A crash mid-append can leave a truncated last line
+        invalidLines++
+      }
+    }
+
+    if (invalidLines > 0) {
+      logger.warn(
+        `⚠️ Ignored ${invalidLines} unreadable line(s) in ${store.location}/${INDEX_FILENAME}`
+      )
+    }
+
+    return index
+  }
+
+  /**
+   * Add an entry to the in-memory maps (internal method)
+   */
+  private add(entry: CacheIndexEntry): void {
+    this.remove(entry.id)
+    this.entries.set(entry.id, entry)
+    this.idsByPath.set(entry.path, entry.id)
+  }
+
+  /**
+   * Remove an entry from the in-memory maps (internal method)
+   * @returns True if there was an entry to remove
+   */
+  private remove(id: string): boolean {
+    const existing = this.entries.get(id)
+    if (!existing) {
+      return false
+    }
+    this.entries.delete(id)
+    if (this.idsByPath.get(existing.path) === id) {
+      this.idsByPath.delete(existing.path)
+    }
+    return true
+  }
+
+  /**
+   * Get the entry for an original Couchbase document ID
+   */
+  get(id: string): CacheIndexEntry | undefined {
+    return this.entries.get(id)
+  }
+
+  /**
+   * Get the ID of the document cached at a relative path
+   */
+  getIdByPath(relativePath: string): string | undefined {
+    return this.idsByPath.get(relativePath)
+  }
+
+  /**
+   * Record (or replace) the entry for a document
+   */
+  set(entry: CacheIndexEntry): void {
+    this.add(entry)
+    this.pendingLines.push(JSON.stringify(entry))
+  }
+
+  /**
+   * Remove the entry for a document
+   */
+  delete(id: string): void {
+    if (this.remove(id)) {
+      this.pendingLines.push(JSON.stringify({ id, deleted: true }))
+    }
+  }
+
+  /**
+   * Get all entries in the index
+   */
+  values(): IterableIterator<CacheIndexEntry> {
+    return this.entries.values()
+  }
+
+  /**
+   * Get all document IDs in the index, sorted
+   */
+  sortedIds(): string[] {
+    return Array.from(this.entries.keys()).sort()
+  }
+
+  /**
+   * Number of documents in the index
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Append changes made since the last flush to the journal
+   */
+  async flush(): Promise<void> {
+    if (this.pendingLines.length === 0) {
+      return
+    }
+    const lines = this.pendingLines
+    this.pendingLines = []
+    await this.store.append(INDEX_FILENAME, `${lines.join('\n')}\n`)
+  }
+
+  /**
+   * Rewrite the journal with one line per current entry
+   */
+  async compact(): Promise<void> {
+    const lines = Array.from(this.entries.values()).map(entry =>
+      JSON.stringify(entry)
+    )
+    await this.store.write(
+      INDEX_FILENAME,
+      lines.length > 0 ? `${lines.join('\n')}\n` : ''
+    )
+    this.pendingLines = []
+  }
+}
+
+/**
+ * Resolve an original Couchbase document ID to its cached file through the
+ * cache index, e.g. "pl_123" -> "pl/123.json"
+ * @param store Cache store
+ * @param id Original document ID
+ * @param folders Only resolve files cached in one of these folders
+ * @param logger Logger instance
+ * @returns Key of the cached file or null if the ID is not in the index
+ */
+export async function resolveCachedFile(
+  store: CacheStore,
+  id: string,
+  folders: string[],
+  logger: Logger
+): Promise<string | null> {
+  const index = await CacheIndex.load(store, logger)
+  const entry = index.get(id)
+  if (!entry) {
+    return null
+  }
+  const inFolder = folders.some(folder => entry.path.startsWith(`${folder}/`))
+  return inFolder ? entry.path : null
+}
@@ -0,0 +1,101 @@
+/**
+ * Cache Reader
+ *
+ * Reads cached JSON documents whichever layout build-cache wrote them in:
+ * loose files (pl/123.json) or archive segments (archive/pl.ndjson.gz).
+ * A folder is read from its archive segment when one exists, otherwise from
+ * the folder itself. Documents keep their directory-layout keys either way,
+ * so callers (and the error files they write) don't need to know the
+ * difference
+ */
+
+import {
+  getArchiveSegment,
+  readArchiveSegment,
+  type CacheArchiveRecord,
+} from './cache-archive.js'
+import { CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+export interface CacheReader {
+  /**
+   * Check whether a cache folder has any documents (e.g. "pl")
+   */
+  hasFolder(folder: string): Promise<boolean>
+  /**
+   * List the keys of the documents in a cache folder
+   */
+  list(folder: string): Promise<string[]>
+  /**
+   * Read a document by a key returned from list
+   */
+  read(key: string): Promise<string>
+}
+
+class LayoutCacheReader implements CacheReader {
+  private segments: Map<
+    string,
+    Promise<Map<string, CacheArchiveRecord> | null>
+  > = new Map()
+  private store: CacheStore
+  private logger: Logger
+
+  constructor(store: CacheStore, logger: Logger) {
+    this.store = store
+    this.logger = logger
+  }
+
+  /**
+   * Load an archive segment once (internal method)
+   */
+  private getSegment(
+    segment: string
+  ): Promise<Map<string, CacheArchiveRecord> | null> {
+    let records = this.segments.get(segment)
+    if (!records) {
+      records = readArchiveSegment(this.store, segment, this.logger)
+      this.segments.set(segment, records)
+    }
+    return records
+  }
+
+  async hasFolder(folder: string): Promise<boolean> {
+    return (await this.list(folder)).length > 0
+  }
+
+  async list(folder: string): Promise<string[]> {
+    const records = await this.getSegment(folder)
+    if (!records) {
+      const entries = await this.store.list(folder)
+      return entries.map(entry => entry.key)
+    }
+    return Array.from(records.keys())
+      .filter(key => key.substring(0, key.lastIndexOf('/')) === folder)
+      .sort()
+  }
+
+  async read(key: string): Promise<string> {
+    const records = await this.getSegment(getArchiveSegment(key))
+    if (!records) {
+      return (await this.store.read(key)).toString('utf8')
+    }
+    const record = records.get(key)
+    if (!record) {
+      throw new Error(`${key} is not in the cache archive`)
+    }
+    return JSON.stringify(record.content, null, 2)
+  }
+}
+
+/**
+ * Open a reader for a cache store
+ * @param store Cache store
+ * @param logger Logger instance
+ * @returns Cache reader
+ */
+export function openCacheReader(
+  store: CacheStore,
+  logger: Logger
+): CacheReader {
+  return new LayoutCacheReader(store, logger)
+}
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  type S3Client,
+} from '@aws-sdk/client-s3'
+import { CacheIndex } from './cache-index.js'
+import { S3CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+function notFound(): Error {
+  return Object.assign(new Error('not found'), { name: 'NotFound' })
+}
+
+/**
+ * Stand-in for an S3 client that keeps objects in memory and records the
+ * name of every command sent
+ */
+function createMemoryS3(): {
+  client: S3Client
+  objects: Map<string, Buffer>
+  commands: string[]
+} {
+  const objects: Map<string, Buffer> = new Map()
+  const commands: string[] = []
+  const send = async (command: unknown) => {
+    commands.push((command as object).constructor.name)
+    if (command instanceof PutObjectCommand) {
+      objects.set(
+        command.input.Key as string,
+        Buffer.from(command.input.Body as Buffer | string)
+      )
+      return {}
+    }
+    if (command instanceof GetObjectCommand) {
+      const content = objects.get(command.input.Key as string)
+      if (!content) throw notFound()
+      return { Body: { transformToByteArray: async () => content } }
+    }
+    if (command instanceof HeadObjectCommand) {
+      if (!objects.has(command.input.Key as string)) throw notFound()
+      return {}
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(command.input.Key as string)
+      return {}
+    }
+    if (command instanceof ListObjectsV2Command) {
+      const prefix = command.input.Prefix ?? ''
+      const delimiter = command.input.Delimiter
+      const keys = Array.from(objects.keys())
+        .filter(key => key.startsWith(prefix))
+        .filter(
+          key => !delimiter || !key.substring(prefix.length).includes(delimiter)
+        )
+        .sort()
+      return {
+        Contents: keys.map(key => ({
+          Key: key,
+          Size: objects.get(key)?.length,
+        })),
+      }
+    }
+    throw new Error('Unexpected command')
+  }
+  return { client: { send } as unknown as S3Client, objects, commands }
+}
+
+describe('S3CacheStore', () => {
+  it('writes appends as parts without rewriting the object', async () => {
+    const { client, objects, commands } = createMemoryS3()
+    const store = new S3CacheStore(client, 'bucket', 'cache')
+
+    await store.append('journal.ndjson', 'a\n')
+    await store.append('journal.ndjson', 'b\n')
+    await store.append('journal.ndjson', 'c\n')
+
+    assert.equal(commands.filter(name => name === 'GetObjectCommand').length, 0)
+    assert.equal(objects.has('cache/journal.ndjson'), false)
+    assert.equal(await store.exists('journal.ndjson'), true)
+    assert.equal((await store.read('journal.ndjson')).toString(), 'a\nb\nc\n')
+    assert.deepEqual(await store.list(''), [])
+  })
+
+  it('reads parts after the object until the next write replaces both', async () => {
+    const { client, objects } = createMemoryS3()
+    const store = new S3CacheStore(client, 'bucket', '')
+
+    await store.write('journal.ndjson', 'a\n')
+    await store.append('journal.ndjson', 'b\n')
+    assert.equal((await store.read('journal.ndjson')).toString(), 'a\nb\n')
+
+    await store.write('journal.ndjson', 'ab\n')
+    assert.equal((await store.read('journal.ndjson')).toString(), 'ab\n')
+    assert.deepEqual(Array.from(objects.keys()), ['journal.ndjson'])
+  })
+
+  it('picks up parts left by an earlier store', async () => {
+    const { client } = createMemoryS3()
+    const first = new S3CacheStore(client, 'bucket', 'cache')
+    await first.append('a/journal.ndjson', '1\n')
+    await first.append('a/journal.ndjson', '2\n')
+
+    const second = new S3CacheStore(client, 'bucket', 'cache')
+    await second.append('a/journal.ndjson', '3\n')
+    assert.equal(
+      (await second.read('a/journal.ndjson')).toString(),
+      '1\n2\n3\n'
+    )
+  })
+
+  it('deletes the object with its parts', async () => {
+    const { client, objects } = createMemoryS3()
+    const store = new S3CacheStore(client, 'bucket', 'cache')
+    await store.write('journal.ndjson', 'a\n')
+    await store.append('journal.ndjson', 'b\n')
+
+    await store.delete('journal.ndjson')
+    assert.equal(objects.size, 0)
+    assert.equal(await store.exists('journal.ndjson'), false)
+    await assert.rejects(store.read('journal.ndjson'), /does not exist/)
+  })
+
+  it('keeps a cache index journal across flushes and a compact', async () => {
+    const { client } = createMemoryS3()
+    const store = new S3CacheStore(client, 'bucket', 'cache')
+    const index = await CacheIndex.load(store, logger)
+    for (const id of ['pl_1', 'pl_2']) {
+      index.set({
+        id,
+        cas: '1',
+        path: `pl/${id.substring(3)}.json`,
+        size: 2,
+        sha256: '',
+        type: 'json',
+        fetchedAt: new Date(0).toISOString(),
+      })
+      await index.flush()
+    }
+    index.delete('pl_1')
+    await index.flush()
+
+    const reloaded = await CacheIndex.load(
+      new S3CacheStore(client, 'bucket', 'cache'),
+      logger
+    )
+    assert.deepEqual(reloaded.sortedIds(), ['pl_2'])
+
+    await reloaded.compact()
+    const compacted = await CacheIndex.load(
+      new S3CacheStore(client, 'bucket', 'cache'),
+      logger
+    )
+    assert.deepEqual(compacted.sortedIds(), ['pl_2'])
+  })
+})
@@ -0,0 +1,432 @@
+/**
+ * Cache Store
+ *
+ * Storage backend for the document cache. Cache locations are either a local
+ * directory (e.g. "./tmp") or an S3-compatible bucket and prefix
+ * (e.g. "s3://couchbase-cache/prod"), so one cache can be built once and
+ * shared between runners. Keys are "/"-separated paths relative to the cache
+ * location, e.g. "pl/123.json"
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { env } from './env.js'
+
+export interface CacheStoreEntry {
+  key: string
+  size: number // Size in bytes
+}
+
+export interface CacheStore {
+  /**
+   * Where the cache lives, for log messages (e.g. "./tmp", "s3://bucket/prefix")
+   */
+  readonly location: string
+  /**
+   * List the entries directly inside a folder (not its sub-folders)
+   * @returns Entries sorted by key, or an empty list if the folder doesn't exist
+   */
+  list(folder: string): Promise<CacheStoreEntry[]>
+  /**
+   * Read an entry
+   * @throws If the entry doesn't exist
+   */
+  read(key: string): Promise<Buffer>
+  /**
+   * Create or replace an entry; readers never see a partially written entry
+   */
+  write(key: string, content: Buffer | string): Promise<void>
+  /**
+   * Append to an entry, creating it if it doesn't exist
+   */
+  append(key: string, content: Buffer | string): Promise<void>
+  /**
+   * Check whether an entry exists
+   */
+  exists(key: string): Promise<boolean>
+  /**
+   * Remove an entry (no-op if it doesn't exist)
+   */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Cache store backed by a local directory
+ */
+export class LocalCacheStore implements CacheStore {
+  readonly location: string
+
+  constructor(rootDir: string) {
+    this.location = rootDir
+  }
+
+  /**
+   * Resolve a key to a file path (internal method)
+   */
+  private resolve(key: string): string {
+    return path.join(this.location, ...key.split('/'))
+  }
+
+  async list(folder: string): Promise<CacheStoreEntry[]> {
+    let dirents
+    try {
+      dirents = await fs.readdir(this.resolve(folder), { withFileTypes: true })
+    } catch {
+      return []
+    }
+    const entries: CacheStoreEntry[] = []
+    for (const dirent of dirents) {
+      // Skip directories and in-progress writes
+      if (!dirent.isFile() || dirent.name.endsWith('.tmp')) continue
+      const key = folder ? `${folder}/${dirent.name}` : dirent.name
+      const stats = await fs.stat(this.resolve(key))
+      entries.push({ key, size: stats.size })
+    }
+    return entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key))
+  }
+
+  async write(key: string, content: Buffer | string): Promise<void> {
+    // Write to a temporary file first so a crash mid-write never leaves a
+    // truncated entry behind
+    const filePath = this.resolve(key)
+    const tempPath = `${filePath}.tmp`
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(tempPath, content)
+    await fs.rename(tempPath, filePath)
+  }
+
+  async append(key: string, content: Buffer | string): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.appendFile(filePath, content)
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+}
+
+/**
+ * Check whether an S3 error means the object doesn't exist
+ * @param error Error thrown by the S3 client
+ * @returns True for "not found" errors
+ */
+function isNotFoundError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false
+  }
+  const { $metadata } = error as { $metadata?: { httpStatusCode?: number } }
+  return (
+    error.name === 'NoSuchKey' ||
+    error.name === 'NotFound' ||
+    $metadata?.httpStatusCode === 404
+  )
+}
+
+// Objects can't be appended to, so every append is written as a part object
+// in this folder ("<folder>/<key>/<part>") and read back after the object
+// itself, until the next write replaces both
+const APPENDS_FOLDER = '.appends'
+const PART_NUMBER_LENGTH = 16 // Digits of a part number (microseconds since epoch)
+
+/**
+ * Cache store backed by an S3-compatible bucket (AWS S3, MinIO, ...)
+ */
+export class S3CacheStore implements CacheStore {
+  readonly location: string
+  private client: S3Client
+  private bucket: string
+  private prefix: string
+  private parts: Promise<Map<string, string[]>> | null = null // Part keys by key, in append order
+
+  constructor(client: S3Client, bucket: string, prefix: string) {
+    this.client = client
+    this.bucket = bucket
+    this.prefix = prefix.replace(/^\/+|\/+$/g, '')
+    this.location = `s3://${bucket}${this.prefix ? `/${this.prefix}` : ''}`
+  }
+
+  /**
+   * Resolve a key to an object key (internal method)
+   */
+  private resolve(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key
+  }
+
+  async list(folder: string): Promise<CacheStoreEntry[]> {
+    const objectPrefix = folder ? `${this.resolve(folder)}/` : this.resolve('')
+    const keyOffset = this.prefix ? this.prefix.length + 1 : 0
+    const entries: CacheStoreEntry[] = []
+    let continuationToken: string | undefined
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: objectPrefix,
+          Delimiter: '/',
+          ...(continuationToken && { ContinuationToken: continuationToken }),
+        })
+      )
+      for (const object of response.Contents ?? []) {
+        if (object.Key === undefined) continue
+        entries.push({
+          key: object.Key.substring(keyOffset),
+          size: object.Size ?? 0,
+        })
+      }
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined
+    } while (continuationToken)
+    return entries
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const parts = (await this.getParts()).get(key) ?? []
+    const content = await this.getObject(key)
+    if (content === null && parts.length === 0) {
+      throw new Error(`${key} does not exist in ${this.location}`)
+    }
+    if (parts.length === 0) {
+      return content ?? Buffer.alloc(0)
+    }
+    const partContents = await Promise.all(
+      parts.map(
+        async partKey => (await this.getObject(partKey)) ?? Buffer.alloc(0)
+      )
+    )
+    return Buffer.concat([content ?? Buffer.alloc(0), ...partContents])
+  }
+
+  async write(key: string, content: Buffer | string): Promise<void> {
+    await this.putObject(key, content)
+    // The parts were all replayed into the new content, so replaying them
+    // again after it (if a crash leaves them behind) gives the same result
+    await this.deleteParts(key)
+  }
+
+  async append(key: string, content: Buffer | string): Promise<void> {
+    const parts = await this.getParts()
+    const keyParts = parts.get(key) ?? []
+    parts.set(key, keyParts)
+    // Parts are named by a number that grows with the clock and with every
+    // part of the key, so they sort in append order whoever wrote them
+    const lastPart = keyParts[keyParts.length - 1]
+    const number = Math.max(
+      Date.now() * 1000,
+      lastPart ? Number(path.posix.basename(lastPart)) + 1 : 0
+    )
+    const partKey = `${APPENDS_FOLDER}/${key}/${String(number).padStart(PART_NUMBER_LENGTH, '0')}`
+    keyParts.push(partKey)
+    try {
+      await this.putObject(partKey, content)
+    } catch (error) {
+      keyParts.splice(keyParts.indexOf(partKey), 1)
+      throw error
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    if (((await this.getParts()).get(key)?.length ?? 0) > 0) {
+      return true
+    }
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.resolve(key) })
+      )
+      return true
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.deleteObject(key)
+    await this.deleteParts(key)
+  }
+
+  /**
+   * Get the appended parts of every key - listed once, then kept up to date
+   * by this store's own appends and writes (internal method)
+   */
+  private getParts(): Promise<Map<string, string[]>> {
+    this.parts ??= this.listParts().catch(error => {
+      this.parts = null
+      throw error
+    })
+    return this.parts
+  }
+
+  /**
+   * List the part objects left by appends (internal method)
+   */
+  private async listParts(): Promise<Map<string, string[]>> {
+    const objectPrefix = `${this.resolve(APPENDS_FOLDER)}/`
+    const keyOffset = this.prefix ? this.prefix.length + 1 : 0
+    const parts: Map<string, string[]> = new Map()
+    let continuationToken: string | undefined
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: objectPrefix,
+          ...(continuationToken && { ContinuationToken: continuationToken }),
+        })
+      )
+      for (const object of response.Contents ?? []) {
+        if (object.Key === undefined) continue
+        const partKey = object.Key.substring(keyOffset)
+        const key = partKey.substring(
+          APPENDS_FOLDER.length + 1,
+          partKey.lastIndexOf('/')
+        )
+        const keyParts = parts.get(key)
+        if (keyParts) {
+          keyParts.push(partKey)
+        } else {
+          parts.set(key, [partKey])
+        }
+      }
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined
+    } while (continuationToken)
+    for (const keyParts of parts.values()) {
+      keyParts.sort()
+    }
+    return parts
+  }
+
+  /**
+   * Remove the appended parts of a key (internal method)
+   */
+  private async deleteParts(key: string): Promise<void> {
+    const parts = await this.getParts()
+    const keyParts = parts.get(key)
+    if (!keyParts) {
+      return
+    }
+    parts.delete(key)
+    await Promise.all(keyParts.map(partKey => this.deleteObject(partKey)))
+  }
+
+  /**
+   * Read an object (internal method)
+   * @returns Object content, or null if it doesn't exist
+   */
+  private async getObject(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.resolve(key) })
+      )
+      if (!response.Body) {
+        return Buffer.alloc(0)
+      }
+      return Buffer.from(await response.Body.transformToByteArray())
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Create or replace an object (internal method)
+   */
+  private async putObject(
+    key: string,
+    content: Buffer | string
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.resolve(key),
+        Body: content,
+      })
+    )
+  }
+
+  /**
+   * Remove an object (internal method)
+   */
+  private async deleteObject(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.resolve(key) })
+    )
+  }
+}
+
+/**
+ * Get the location of a sub-folder of a cache location
+ * @param location Local directory or "s3://bucket/prefix"
+ * @param folder "/"-separated folder ("" for the location itself)
+ * @returns Location of the folder
+ */
+export function joinCacheLocation(location: string, folder: string): string {
+  if (!folder) {
+    return location
+  }
+  return `${location.replace(/\/+$/, '')}/${folder}`
+}
+
+const stores: Map<string, CacheStore> = new Map()
+
+/**
+ * Open the cache store for a location, reusing the store (and its S3
+ * connection) if the location was opened before
+ * @param location Local directory or "s3://bucket/prefix"
+ * @returns Cache store
+ */
+export function openCacheStore(location: string): CacheStore {
+  let store = stores.get(location)
+  if (store) {
+    return store
+  }
+
+  const s3Match = /^s3:\/\/([^/]+)\/?(.*)$/.exec(location)
+  if (s3Match) {
+    const client = new S3Client({
+      region: env.S3_REGION,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
+      ...(env.S3_ACCESS_KEY_ID &&
+        env.S3_SECRET_ACCESS_KEY && {
+          credentials: {
+            accessKeyId: env.S3_ACCESS_KEY_ID,
+            secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+          },
+        }),
+    })
+    store = new S3CacheStore(client, s3Match[1] as string, s3Match[2] ?? '')
+  } else {
+    store = new LocalCacheStore(location)
+  }
+
+  stores.set(location, store)
+  return store
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  clearCheckpoint,
+  describeSettingsChanges,
+  readCheckpoint,
+  writeCheckpoint,
+  type BuildCacheCheckpoint,
+  type CheckpointSettings,
+} from './checkpoint.js'
+import { LocalCacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+const settings: CheckpointSettings = {
+  format: 'files',
+  includePrefixes: ['pl_', 'user_'],
+  excludePrefixes: [],
+  incremental: false,
+}
+
+const checkpoint: BuildCacheCheckpoint = {
+  bucketName: 'default',
+  settings,
+  pass: 'documents',
+  cursor: 'pl_123',
+  totals: {
+    pages: 2,
+    processed: 10,
+    skipped: 0,
+    failed: 0,
+    changed: 0,
+    deleted: 0,
+  },
+  completedPasses: {},
+  startedAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+}
+
+describe('checkpoint', () => {
+  let cacheDir: string
+  let store: LocalCacheStore
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-'))
+    store = new LocalCacheStore(cacheDir)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('round-trips through the cache store', async () => {
+    assert.equal(await readCheckpoint(store, logger), null)
+    await writeCheckpoint(store, checkpoint)
+    assert.deepEqual(await readCheckpoint(store, logger), checkpoint)
+    await clearCheckpoint(store, logger)
+    assert.equal(await readCheckpoint(store, logger), null)
+  })
+
+  it('ignores unreadable checkpoints', async () => {
+    await store.write('.build-cache-checkpoint.json', '{"bucketName":')
+    assert.equal(await readCheckpoint(store, logger), null)
+    await store.write('.build-cache-checkpoint.json', '{"bucketName":"x"}')
+    assert.equal(await readCheckpoint(store, logger), null)
+  })
+
+  it('describes options that differ from the recorded ones', () => {
+    assert.equal(
+      describeSettingsChanges(settings, {
+        ...settings,
+        includePrefixes: ['user_', 'pl_'],
+      }),
+      null
+    )
+    assert.equal(
+      describeSettingsChanges(settings, {
+        format: 'archive',
+        includePrefixes: ['pl_'],
+        excludePrefixes: [],
+        incremental: true,
+      }),
+      '--format files, not archive; --include-prefix pl_, user_, not pl_; without --incremental'
+    )
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Build Cache Checkpoint
+ *
+ * Persists build-cache progress to the cache directory after every page so
+ * an interrupted run can be resumed from the last completed page
+ */
+
+import { z } from 'zod'
+import { CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const CHECKPOINT_FILENAME = '.build-cache-checkpoint.json'
+
+const PassTotalsSchema = z.object({
+  pages: z.number(),
+  processed: z.number(),
+  skipped: z.number(),
+  failed: z.number(),
+  changed: z.number(),
+  deleted: z.number(),
+})
+
+// Options that decide which documents a run caches and how it writes them -
+// a run is only resumed with the same ones
+const CheckpointSettingsSchema = z.object({
+  format: z.enum(['files', 'archive']),
+  includePrefixes: z.array(z.string()),
+  excludePrefixes: z.array(z.string()),
+  incremental: z.boolean(),
+})
+
+const BuildCacheCheckpointSchema = z.object({
+  bucketName: z.string(),
+  settings: CheckpointSettingsSchema.optional(), // Missing from older checkpoints
+  pass: z.enum(['documents', 'attachments']),
+  cursor: z.string(),
+  totals: PassTotalsSchema, // Totals of the pass in progress
+  completedPasses: z
+    .object({
+      documents: PassTotalsSchema.optional(),
+      attachments: PassTotalsSchema.optional(),
+    })
+    .default({}),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export type CachePass = BuildCacheCheckpoint['pass']
+export type PassTotals = z.infer<typeof PassTotalsSchema>
+export type CheckpointSettings = z.infer<typeof CheckpointSettingsSchema>
+export type BuildCacheCheckpoint = z.infer<typeof BuildCacheCheckpointSchema>
+
+/**
+ * Format a list of prefixes for a message
+ */
+function formatPrefixes(prefixes: string[]): string {
+  return prefixes.length > 0 ? prefixes.join(', ') : '(none)'
+}
+
+/**
+ * Describe how the options of a run differ from the ones a checkpoint was
+ * written with (the order prefixes are given in doesn't matter)
+ * @param recorded Options recorded in the checkpoint
+ * @param current Options of this run
+ * @returns Description of the differences, or null if there are none
+ */
+export function describeSettingsChanges(
+  recorded: CheckpointSettings,
+  current: CheckpointSettings
+): string | null {
+  const changes: string[] = []
+  if (recorded.format !== current.format) {
+    changes.push(`--format ${recorded.format}, not ${current.format}`)
+  }
+  for (const [option, key] of [
+    ['--include-prefix', 'includePrefixes'],
+    ['--exclude-prefix', 'excludePrefixes'],
+  ] as const) {
+    const recordedPrefixes = [...recorded[key]].sort()
+    const currentPrefixes = [...current[key]].sort()
+    if (recordedPrefixes.join('\n') !== currentPrefixes.join('\n')) {
+      changes.push(
+        `${option} ${formatPrefixes(recordedPrefixes)}, not ${formatPrefixes(currentPrefixes)}`
+      )
+    }
+  }
+  if (recorded.incremental !== current.incremental) {
+    changes.push(`${recorded.incremental ? 'with' : 'without'} --incremental`)
+  }
+  return changes.length > 0 ? changes.join('; ') : null
+}
+
+/**
+ * Read the checkpoint left by a previous build-cache run
+ * @param store Cache store
+ * @param logger Logger instance
+ * @returns Checkpoint or null if there is none (or it is unreadable)
+ */
+export async function readCheckpoint(
+  store: CacheStore,
+  logger: Logger
+): Promise<BuildCacheCheckpoint | null> {
+  const checkpointPath = `${store.location}/${CHECKPOINT_FILENAME}`
+
+  let fileContent: string
+  try {
+    fileContent = (await store.read(CHECKPOINT_FILENAME)).toString('utf8')
+  } catch {
+    return null
+  }
+
+  try {
+    const parseResult = BuildCacheCheckpointSchema.safeParse(
+      JSON.parse(fileContent)
+    )
+    if (!parseResult.success) {
+      logger.warn(
+        `⚠️ Ignoring invalid checkpoint ${checkpointPath}:`,
+        parseResult.error.issues
+      )
+      return null
+    }
+    return parseResult.data
+  } catch (error) {
+    logger.warn(`⚠️ Could not parse checkpoint ${checkpointPath}:`, error)
+    return null
+  }
+}
+
+/**
+ * Write the checkpoint for the last completed page
+ * @param store Cache store
+ * @param checkpoint Checkpoint to persist
+ */
+export async function writeCheckpoint(
+  store: CacheStore,
+  checkpoint: BuildCacheCheckpoint
+): Promise<void> {
+  await store.write(CHECKPOINT_FILENAME, JSON.stringify(checkpoint, null, 2))
+}
+
+/**
+ * Remove the checkpoint once a run has completed
+ * @param store Cache store
+ * @param logger Logger instance
+ */
+export async function clearCheckpoint(
+  store: CacheStore,
+  logger: Logger
+): Promise<void> {
+  try {
+    await store.delete(CHECKPOINT_FILENAME)
+  } catch (error) {
+    logger.warn('⚠️ Could not remove checkpoint:', error)
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Couchbase Health
+ *
+ * Turns the ping and diagnostics reports of the Couchbase SDK - untyped JSON
+ * whose field names differ between SDK versions - into readable endpoint
+ * health
+ */
+
+import { z } from 'zod'
+
+const EndpointReportSchema = z.object({
+  id: z.string().optional(),
+  type: z.string().optional(),
+  remote: z.string().optional(),
+  latency_us: z.number().optional(), // SDK 3
+  latency: z.number().optional(), // SDK 4 (also in microseconds)
+  status: z.string().optional(), // SDK 3
+  state: z.string().optional(), // SDK 4
+  details: z.string().optional(),
+  error: z.string().optional(),
+})
+
+// Services are keyed by service type in ping reports, and listed with a
+// type field in diagnostics reports
+const HealthReportSchema = z.object({
+  services: z.union([
+    z.record(z.string(), z.array(EndpointReportSchema)),
+    z.array(EndpointReportSchema),
+  ]),
+})
+
+const SERVICE_LABELS: Record<string, string> = {
+  kv: 'KV',
+  n1ql: 'Query',
+  query: 'Query',
+  views: 'Views',
+  fts: 'Search',
+  search: 'Search',
+  cbas: 'Analytics',
+  analytics: 'Analytics',
+  mgmt: 'Management',
+  management: 'Management',
+}
+
+export interface EndpointHealth {
+  service: string // Readable service name (e.g. "KV", "Query")
+  remote: string // Host and port of the endpoint
+  status: string // "ok" when healthy (ping), "connected" (diagnostics), ...
+  latencyMs: number | null
+  error: string | null
+}
+
+export interface PingReport {
+  endpoints: EndpointHealth[]
+  healthy: boolean // Every endpoint answered the ping
+}
+
+/**
+ * Parse a ping or diagnostics report into endpoint health
+ * @param report Report returned by ping() or diagnostics()
+ * @returns Endpoints (empty if the report has an unknown shape)
+ */
+function parseEndpoints(report: unknown): EndpointHealth[] {
+  const parseResult = HealthReportSchema.safeParse(report)
+  if (!parseResult.success) {
+    return []
+  }
+  const { services } = parseResult.data
+  const entries = Array.isArray(services)
+    ? services.map(endpoint => [endpoint.type ?? 'unknown', endpoint] as const)
+    : Object.entries(services).flatMap(([type, endpoints]) =>
+        endpoints.map(endpoint => [type, endpoint] as const)
+      )
+
+  return entries.map(([type, endpoint]) => {
+    const latencyUs = endpoint.latency_us ?? endpoint.latency
+    return {
+      service: SERVICE_LABELS[type] ?? type,
+      remote: endpoint.remote ?? 'unknown',
+      status: endpoint.status ?? endpoint.state ?? 'unknown',
+      latencyMs: latencyUs !== undefined ? latencyUs / 1000 : null,
+      error: endpoint.error ?? endpoint.details ?? null,
+    }
+  })
+}
+
+/**
+ * Parse the result of a ping
+ * @param result Result of bucket.ping() or cluster.ping()
+ * @returns Endpoint health and whether every endpoint is healthy
+ */
+export function parsePingResult(result: unknown): PingReport {
+  const endpoints = parseEndpoints(result)
+  return {
+    endpoints,
+    healthy:
+      endpoints.length > 0 &&
+      endpoints.every(endpoint => endpoint.status === 'ok'),
+  }
+}
+
+/**
+ * Summarize the result of cluster.diagnostics() in one line
+ * @param result Diagnostics result
+ * @returns e.g. "4 endpoints (KV: 3 connected, Query: 1 connected)"
+ */
+export function summarizeDiagnostics(result: unknown): string {
+  const endpoints = parseEndpoints(result)
+  const counts: Map<string, number> = new Map()
+  for (const endpoint of endpoints) {
+    const key = `${endpoint.service}: ${endpoint.status}`
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  const services = Array.from(counts.entries())
+    .map(([key, count]) => {
+      const [service, status] = key.split(': ')
+      return `${service}: ${count} ${status}`
+    })
+    .join(', ')
+  return `${endpoints.length} endpoints${services ? ` (${services})` : ''}`
+}
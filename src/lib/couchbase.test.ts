@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  CouchbaseClient,
+  DEFAULT_KEYSPACE,
+  getKeyspaceFolder,
+  isDefaultKeyspace,
+  parseKeyspace,
+} from './couchbase.js'
+
+describe('keyspaces', () => {
+  it('parses <scope>.<collection>', () => {
+    assert.deepEqual(parseKeyspace('media.playlists'), {
+      scope: 'media',
+      collection: 'playlists',
+    })
+    assert.throws(() => parseKeyspace('media'), /<scope>\.<collection>/)
+    assert.throws(() => parseKeyspace('a.b.c'), /<scope>\.<collection>/)
+    assert.throws(() => parseKeyspace('.b'), /<scope>\.<collection>/)
+  })
+
+  it('caches the default collection in the cache root', () => {
+    assert.equal(isDefaultKeyspace(DEFAULT_KEYSPACE), true)
+    assert.equal(getKeyspaceFolder(DEFAULT_KEYSPACE), '')
+    assert.equal(
+      getKeyspaceFolder({ scope: 'media', collection: 'playlists' }),
+      'media/playlists'
+    )
+  })
+})
+
+describe('CouchbaseClient.getInstance', () => {
+  it('shares one instance per bucket', () => {
+    const client = CouchbaseClient.getInstance({ bucketName: 'shared' })
+    assert.equal(CouchbaseClient.getInstance({ bucketName: 'shared' }), client)
+    assert.equal(
+      CouchbaseClient.getInstance({ bucketName: 'shared', debug: false }),
+      client
+    )
+    assert.notEqual(
+      CouchbaseClient.getInstance({ bucketName: 'other' }),
+      client
+    )
+  })
+
+  it('rejects a different config for the same bucket', () => {
+    CouchbaseClient.getInstance({ bucketName: 'conflict', debug: true })
+    assert.throws(
+      () =>
+        CouchbaseClient.getInstance({ bucketName: 'conflict', debug: false }),
+      /already created with a different debug/
+    )
+    assert.throws(
+      () =>
+        CouchbaseClient.getInstance({
+          bucketName: 'conflict',
+          collectionNames: ['other'],
+        }),
+      /different collectionNames/
+    )
+  })
+})
@@ -1,25 +1,87 @@
-import { Cluster, Bucket, ConnectOptions } from 'couchbase'
+import { Cluster, Bucket, Collection, ConnectOptions } from 'couchbase'
+import {
+  parsePingResult,
+  summarizeDiagnostics,
+  type PingReport,
+} from './couchbase-health.js'
 import { env } from './env.js'
 import { Logger } from './logger.js'
+import { getRetryOptions, withRetry } from './retry.js'
 
 export interface CouchbaseConfig {
   connectionString: string
   username: string
   password: string
   bucketName: string
+  scopeName: string
+  collectionNames: string[] // Collections within the scope to migrate
   connectionTimeout: number
   operationTimeout: number
   trustStorePath?: string // Path to trust store file for SSL certificate validation
   debug?: boolean
 }
 
+/**
+ * A scope and collection within the bucket
+ */
+export interface Keyspace {
+  scope: string
+  collection: string
+}
+
+export const DEFAULT_KEYSPACE: Keyspace = {
+  scope: '_default',
+  collection: '_default',
+}
+
+/**
+ * Check if a keyspace is the bucket's default scope and collection
+ * @param keyspace Keyspace to check
+ * @returns True for _default._default
+ */
+export function isDefaultKeyspace(keyspace: Keyspace): boolean {
+  return (
+    keyspace.scope === DEFAULT_KEYSPACE.scope &&
+    keyspace.collection === DEFAULT_KEYSPACE.collection
+  )
+}
+
+/**
+ * Get the cache sub-folder documents from a keyspace are written to
+ * @param keyspace Keyspace
+ * @returns "" for the default collection (the cache root), otherwise
+ * "<scope>/<collection>"
+ */
+export function getKeyspaceFolder(keyspace: Keyspace): string {
+  return isDefaultKeyspace(keyspace)
+    ? ''
+    : `${keyspace.scope}/${keyspace.collection}`
+}
+
+/**
+ * Parse a keyspace given as "<scope>.<collection>"
+ * @param value Keyspace string
+ * @returns Keyspace
+ * @throws If the value isn't a scope and collection separated by a dot
+ */
+export function parseKeyspace(value: string): Keyspace {
+  const [scope, collection, ...rest] = value.split('.')
+  if (!scope || !collection || rest.length > 0) {
+    throw new Error(
+      `Keyspace must be <scope>.<collection> (e.g. _default._default), got ${value}`
+    )
+  }
+  return { scope, collection }
+}
+
 export class CouchbaseClient {
-  private static instance: CouchbaseClient | null = null
+  private static instances: Map<string, CouchbaseClient> = new Map()
   private cluster: Cluster | null = null
   private bucket: Bucket | null = null
   private config: CouchbaseConfig
   private isConnected: boolean = false
   private initPromise: Promise<CouchbaseClient> | null = null
+  private reconnectPromise: Promise<void> | null = null
   private logger: Logger
 
   private constructor(config?: Partial<CouchbaseConfig>) {
@@ -28,26 +90,50 @@ export class CouchbaseClient {
       username: env.COUCHBASE_USERNAME,
       password: env.COUCHBASE_PASSWORD,
       bucketName: env.COUCHBASE_BUCKET_NAME,
+      scopeName: env.COUCHBASE_SCOPE,
+      collectionNames: env.COUCHBASE_COLLECTIONS,
       connectionTimeout: env.COUCHBASE_CONNECTION_TIMEOUT,
       operationTimeout: env.COUCHBASE_OPERATION_TIMEOUT,
       ...(env.COUCHBASE_TRUST_STORE_PATH && {
         trustStorePath: env.COUCHBASE_TRUST_STORE_PATH,
       }),
+      debug: false,
       ...config,
     }
     this.logger = new Logger(config?.debug ?? false)
   }
 
   /**
-   * Get the singleton instance of CouchbaseClient
+   * Get the CouchbaseClient for a bucket (COUCHBASE_BUCKET_NAME unless the
+   * config names another one). Each bucket has one shared instance, created
+   * with the config passed the first time it is requested
+   * @throws If the bucket's instance was created with a different config
    */
   public static getInstance(
     config?: Partial<CouchbaseConfig>
   ): CouchbaseClient {
-    if (!CouchbaseClient.instance) {
-      CouchbaseClient.instance = new CouchbaseClient(config)
+    const bucketName = config?.bucketName ?? env.COUCHBASE_BUCKET_NAME
+    let instance = CouchbaseClient.instances.get(bucketName)
+    if (!instance) {
+      instance = new CouchbaseClient(config)
+      CouchbaseClient.instances.set(bucketName, instance)
+      return instance
+    }
+
+    const existing = instance.config
+    const conflict = (
+      Object.keys(config ?? {}) as (keyof CouchbaseConfig)[]
+    ).find(
+      key =>
+        config?.[key] !== undefined &&
+        JSON.stringify(config[key]) !== JSON.stringify(existing[key])
+    )
+    if (conflict) {
+      throw new Error(
+        `Couchbase client for bucket ${bucketName} was already created with a different ${conflict}`
+      )
     }
-    return CouchbaseClient.instance
+    return instance
   }
 
   /**
@@ -62,7 +148,14 @@ export class CouchbaseClient {
       return this.initPromise
     }
 
-    this.initPromise = this._establishConnection().then(() => this)
+    this.initPromise = this._establishConnection().then(
+      () => this,
+      error => {
+        // Let the next call try again instead of replaying the failure
+        this.initPromise = null
+        throw error
+      }
+    )
     await this.initPromise
     return this
   }
@@ -76,6 +169,11 @@ export class CouchbaseClient {
       this.logger.info(`📍 Connection string: ${this.config.connectionString}`)
       this.logger.info(`👤 Username: ${this.config.username}`)
       this.logger.info(`🪣 Bucket: ${this.config.bucketName}`)
+      this.logger.info(
+        `🗂️ Keyspaces: ${this.getKeyspaces()
+          .map(keyspace => `${keyspace.scope}.${keyspace.collection}`)
+          .join(', ')}`
+      )
 
       const options: ConnectOptions = {
         username: this.config.username,
@@ -91,7 +189,7 @@ export class CouchbaseClient {
         options
       )
 
-      // Get bucket (using default scope and collection)
+      // Collections are opened per keyspace in getCollection
       this.bucket = this.cluster.bucket(this.config.bucketName)
 
       this.isConnected = true
@@ -134,13 +232,113 @@ export class CouchbaseClient {
 
     try {
       const diagnostics = await this.cluster.diagnostics()
-      return `Connected to cluster (${JSON.stringify(diagnostics)})`
+      return `Connected to cluster, ${summarizeDiagnostics(diagnostics)}`
     } catch (error) {
       this.logger.error('❌ Error getting cluster info:', error)
       throw error
     }
   }
 
+  /**
+   * Ping the services of the bucket (auto-connects if needed)
+   * @returns Latency and state of every endpoint
+   */
+  async ping(): Promise<PingReport> {
+    const bucket = await this.getBucket()
+    const result: unknown = await bucket.ping({
+      timeout: this.config.operationTimeout,
+    })
+    return parsePingResult(result)
+  }
+
+  /**
+   * Make sure the connection still works, rebuilding it if it doesn't
+   * Pings the bucket; a failed ping or an endpoint that doesn't answer means
+   * the connection is broken, so the cluster is closed and connected again
+   * @returns True if the connection had to be rebuilt
+   */
+  async ensureConnection(): Promise<boolean> {
+    if (!this.isConnected) {
+      await this.connect()
+      return false
+    }
+
+    try {
+      const report = await this.ping()
+      if (report.healthy) {
+        return false
+      }
+      const unhealthy = report.endpoints
+        .filter(endpoint => endpoint.status !== 'ok')
+        .map(endpoint => `${endpoint.service} ${endpoint.remote}`)
+      this.logger.warn(
+        `⚠️ Couchbase endpoints not responding: ${unhealthy.join(', ') || 'none reported'}`
+      )
+    } catch (error) {
+      this.logger.warn('⚠️ Couchbase ping failed:', error)
+    }
+
+    await this.reconnect()
+    return true
+  }
+
+  /**
+   * Run an operation under the Couchbase retry policy
+   * Before each retry the connection is checked and rebuilt if it dropped, so
+   * fn should get the cluster or collection from the client on every attempt
+   * rather than reusing one from before the first
+   * @param fn Operation to run
+   * @param logger Logger for retry warnings (default: the client's)
+   * @returns Promise that resolves with the operation result
+   */
+  async withRetry<T>(
+    fn: () => Promise<T>,
+    logger: Logger = this.logger
+  ): Promise<T> {
+    return withRetry(fn, {
+      ...getRetryOptions('couchbase', logger, 'Couchbase'),
+      onRetry: async () => {
+        try {
+          await this.ensureConnection()
+        } catch (error) {
+          // Leave it to the next attempt to fail with the connection error
+          logger.warn('⚠️ Could not reconnect to Couchbase:', error)
+        }
+      },
+    })
+  }
+
+  /**
+   * Close the connection and connect again
+   * Concurrent callers share the same reconnect
+   */
+  async reconnect(): Promise<void> {
+    if (!this.reconnectPromise) {
+      this.reconnectPromise = this._rebuildConnection().finally(() => {
+        this.reconnectPromise = null
+      })
+    }
+    await this.reconnectPromise
+  }
+
+  /**
+   * Drop the current cluster and connect again (internal method)
+   */
+  private async _rebuildConnection(): Promise<void> {
+    this.logger.info('🔄 Reconnecting to Couchbase...')
+    const cluster = this.cluster
+    this.cluster = null
+    this.bucket = null
+    this.isConnected = false
+    this.initPromise = null
+    if (cluster) {
+      await cluster.close().catch(error => {
+        this.logger.warn('⚠️ Error closing broken connection:', error)
+      })
+    }
+    await this.connect()
+  }
+
   /**
    * Get the bucket instance (auto-connects if needed)
    */
@@ -152,6 +350,50 @@ export class CouchbaseClient {
     return this.bucket
   }
 
+  /**
+   * Get the keyspaces to migrate: every configured collection in the
+   * configured scope
+   */
+  getKeyspaces(): Keyspace[] {
+    const collections =
+      this.config.collectionNames.length > 0
+        ? this.config.collectionNames
+        : [DEFAULT_KEYSPACE.collection]
+    return collections.map(collection => ({
+      scope: this.config.scopeName,
+      collection,
+    }))
+  }
+
+  /**
+   * Get a collection of the bucket (auto-connects if needed)
+   * @param keyspace Scope and collection (default: the default collection)
+   */
+  async getCollection(
+    keyspace: Keyspace = DEFAULT_KEYSPACE
+  ): Promise<Collection> {
+    const bucket = await this.getBucket()
+    if (isDefaultKeyspace(keyspace)) {
+      return bucket.defaultCollection()
+    }
+    return bucket.scope(keyspace.scope).collection(keyspace.collection)
+  }
+
+  /**
+   * Get the N1QL keyspace to select from
+   * Named collections are aliased to the bucket name so rows have the same
+   * { [bucketName]: body } shape for every keyspace
+   * @param keyspace Scope and collection (default: the default collection)
+   * @returns FROM clause target
+   */
+  getKeyspacePath(keyspace: Keyspace = DEFAULT_KEYSPACE): string {
+    const { bucketName } = this.config
+    if (isDefaultKeyspace(keyspace)) {
+      return `\`${bucketName}\``
+    }
+    return `\`${bucketName}\`.\`${keyspace.scope}\`.\`${keyspace.collection}\` AS \`${bucketName}\``
+  }
+
   /**
    * Get the cluster instance (auto-connects if needed)
    */
@@ -180,15 +422,15 @@ export class CouchbaseClient {
   }
 
   /**
-   * Reset the singleton instance (useful for testing)
+   * Reset the instances of every bucket (useful for testing)
    */
   public static resetInstance(): void {
-    if (CouchbaseClient.instance) {
-      CouchbaseClient.instance.disconnect().catch(() => {
+    for (const instance of CouchbaseClient.instances.values()) {
+      instance.disconnect().catch(() => {
         // Ignore disconnect errors during reset
       })
-      CouchbaseClient.instance = null
     }
+    CouchbaseClient.instances.clear()
   }
 }
 
@@ -0,0 +1,327 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createHash } from 'crypto'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { CacheIndex, type CacheIndexEntry } from './cache-index.js'
+import { LocalCacheStore } from './cache-store.js'
+import type { CouchbaseClient } from './couchbase.js'
+import {
+  getCachePath,
+  getDocuments,
+  processJsonDocument,
+  removeDeletedDocuments,
+  verifyAttachmentDigest,
+  verifyAttachmentFilename,
+  type DocumentRow,
+} from './document-processor.js'
+import { Logger } from './logger.js'
+
+const logger = new Logger(false)
+
+interface RecordedQuery {
+  statement: string
+  parameters: Record<string, unknown>
+}
+
+/**
+ * Stand-in for a Couchbase client that answers the paging query from a
+ * sorted list of document IDs
+ */
+function createPagingClient(ids: string[]): {
+  client: CouchbaseClient
+  queries: RecordedQuery[]
+} {
+  const queries: RecordedQuery[] = []
+  const cluster = {
+    query: async (
+      statement: string,
+      options: { parameters: Record<string, unknown> }
+    ) => {
+      queries.push({ statement, parameters: options.parameters })
+      const lastId = options.parameters['LAST_ID'] as string
+      const limit = options.parameters['LIMIT'] as number
+      const rows: DocumentRow[] = ids
+        .filter(id => id > lastId)
+        .slice(0, limit)
+        .map(id => ({ id, cas: '1' }))
+      return { rows }
+    },
+  }
+  const client = {
+    getConfig: () => ({ bucketName: 'test', operationTimeout: 1000 }),
+    getKeyspacePath: () => '`test`',
+    getCluster: async () => cluster,
+    withRetry: <T>(fn: () => Promise<T>) => fn(),
+  } as unknown as CouchbaseClient
+  return { client, queries }
+}
+
+function indexEntry(id: string, entryPath: string): CacheIndexEntry {
+  return {
+    id,
+    cas: '1',
+    path: entryPath,
+    size: 2,
+    sha256: '',
+    type: 'json',
+    fetchedAt: new Date(0).toISOString(),
+  }
+}
+
+describe('getDocuments', () => {
+  it('pages by ID cursor until the last page', async () => {
+    const { client, queries } = createPagingClient(['a', 'b', 'c', 'd', 'e'])
+
+    const first = await getDocuments(client, logger, { limit: 2 })
+    assert.deepEqual(
+      first.documents.map(doc => doc.id),
+      ['a', 'b']
+    )
+    assert.equal(first.hasMore, true)
+    assert.equal(first.nextCursor, 'b')
+    assert.equal(queries[0]?.parameters['LAST_ID'], '')
+    assert.equal(queries[0]?.parameters['LIMIT'], 3)
+
+    const second = await getDocuments(client, logger, {
+      cursor: first.nextCursor,
+      limit: 2,
+    })
+    assert.deepEqual(
+      second.documents.map(doc => doc.id),
+      ['c', 'd']
+    )
+
+    const last = await getDocuments(client, logger, {
+      cursor: second.nextCursor,
+      limit: 2,
+    })
+    assert.deepEqual(
+      last.documents.map(doc => doc.id),
+      ['e']
+    )
+    assert.equal(last.hasMore, false)
+    assert.equal(last.nextCursor, 'e')
+  })
+
+  it('keeps the cursor on an empty page', async () => {
+    const { client } = createPagingClient([])
+    const page = await getDocuments(client, logger, { cursor: 'x', limit: 2 })
+    assert.deepEqual(page.documents, [])
+    assert.equal(page.hasMore, false)
+    assert.equal(page.nextCursor, 'x')
+  })
+
+  it('escapes LIKE wildcards in ID prefixes', async () => {
+    const { client, queries } = createPagingClient([])
+    await getDocuments(client, logger, {
+      filter: { includePrefixes: ['pl_', '50%'], excludePrefixes: ['a\\b'] },
+    })
+    const parameters = queries[0]?.parameters ?? {}
+    assert.equal(parameters['INCLUDE_0'], 'pl\\_%')
+    assert.equal(parameters['INCLUDE_1'], '50\\%%')
+    assert.equal(parameters['EXCLUDE_0'], 'a\\\\b%')
+    assert.match(
+      queries[0]?.statement ?? '',
+      /\(META\(\)\.id LIKE \$INCLUDE_0 OR META\(\)\.id LIKE \$INCLUDE_1\)/
+    )
+  })
+})
+
+describe('getCachePath', () => {
+  let cacheDir: string
+  let index: CacheIndex
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-path-'))
+    index = await CacheIndex.load(new LocalCacheStore(cacheDir), logger)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('maps IDs to folders and filenames', () => {
+    assert.equal(getCachePath('pl_123', '.json'), 'pl/123.json')
+    assert.equal(getCachePath('user_abc', '.json'), 'user/abc.json')
+    assert.equal(getCachePath('u_abc', '.json'), 'u/abc.json')
+    assert.equal(
+      getCachePath('_sync:att:sha1-ab/c+d=', '.png'),
+      '_sync/att/sha1-ab_c_d_.png'
+    )
+    assert.equal(getCachePath('plain', '.json'), 'plain.json')
+  })
+
+  it('appends an ID hash when the path belongs to another document', () => {
+    index.set(indexEntry('a:b:x', 'a/b/x.json'))
+
+    assert.equal(getCachePath('a:b:x', '.json', index), 'a/b/x.json')
+    const hash = createHash('sha1')
+      .update('a:b:c:x')
+      .digest('hex')
+      .substring(0, 8)
+    assert.equal(getCachePath('a:b:c:x', '.json', index), `a/b/x-${hash}.json`)
+  })
+})
+
+describe('verifyAttachmentDigest', () => {
+  it('compares content with the digest in the ID', () => {
+    const content = Buffer.from('hello')
+    const digest = createHash('sha1').update(content).digest('base64')
+
+    assert.deepEqual(
+      verifyAttachmentDigest(`_sync:att:sha1-${digest}`, content),
+      {
+        expected: digest,
+        actual: digest,
+        matches: true,
+      }
+    )
+    assert.equal(
+      verifyAttachmentDigest(`_sync:att:sha1-${digest}`, Buffer.from('other'))
+        ?.matches,
+      false
+    )
+    assert.equal(verifyAttachmentDigest('pl_123', content), null)
+  })
+})
+
+describe('verifyAttachmentFilename', () => {
+  it('compares content with the digest the filename was made from', () => {
+    const content = Buffer.from('hello?')
+    const digest = createHash('sha1').update(content).digest('base64')
+    const stem = `sha1-${digest.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+    assert.notEqual(stem, `sha1-${digest}`)
+
+    assert.deepEqual(
+      verifyAttachmentFilename(`_sync/att/${stem}.png`, content),
+      { expected: stem, actual: stem, matches: true }
+    )
+    assert.equal(
+      verifyAttachmentFilename(`_sync/att/${stem}.png`, Buffer.from('other'))
+        .matches,
+      false
+    )
+  })
+
+  it('accepts the ID hash added on a path collision', () => {
+    const content = Buffer.from('hello')
+    const digest = createHash('sha1').update(content).digest('base64')
+    const idHash = createHash('sha1')
+      .update(`_sync:att:sha1-${digest}`)
+      .digest('hex')
+      .substring(0, 8)
+    const stem = `sha1-${digest.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+
+    assert.equal(
+      verifyAttachmentFilename(`_sync/att/${stem}-${idHash}.bin`, content)
+        .matches,
+      true
+    )
+    assert.equal(
+      verifyAttachmentFilename(`_sync/att/${stem}-00000000.bin`, content)
+        .matches,
+      false
+    )
+  })
+})
+
+describe('removeDeletedDocuments', () => {
+  let cacheDir: string
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'remove-deleted-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('removes indexed documents in the page range that were not returned', async () => {
+    const store = new LocalCacheStore(cacheDir)
+    const index = await CacheIndex.load(store, logger)
+    for (const id of ['pl_1', 'pl_2', 'pl_3', 'pl_4']) {
+      const cachePath = getCachePath(id, '.json')
+      await store.write(cachePath, '{}')
+      index.set(indexEntry(id, cachePath))
+    }
+
+    const removed = await removeDeletedDocuments(
+      index,
+      store,
+      index.sortedIds(),
+      { after: 'pl_1', upTo: 'pl_3' },
+      new Set(['pl_3']),
+      {},
+      logger
+    )
+
+    assert.equal(removed, 1)
+    assert.deepEqual(index.sortedIds(), ['pl_1', 'pl_3', 'pl_4'])
+    assert.equal(await store.exists('pl/2.json'), false)
+    assert.equal(await store.exists('pl/4.json'), true)
+  })
+
+  it('leaves documents outside the filter alone', async () => {
+    const store = new LocalCacheStore(cacheDir)
+    const index = await CacheIndex.load(store, logger)
+    index.set(indexEntry('pl_1', 'pl/1.json'))
+    index.set(indexEntry('user_1', 'user/1.json'))
+
+    const removed = await removeDeletedDocuments(
+      index,
+      store,
+      index.sortedIds(),
+      { after: '' },
+      new Set(),
+      { includePrefixes: ['pl_'] },
+      logger
+    )
+
+    assert.equal(removed, 1)
+    assert.deepEqual(index.sortedIds(), ['user_1'])
+  })
+})
+
+describe('processJsonDocument', () => {
+  let cacheDir: string
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'process-json-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it('indexes an existing file it skips with the CAS it was written with', async () => {
+    const store = new LocalCacheStore(cacheDir)
+    const index = await CacheIndex.load(store, logger)
+    const existing = JSON.stringify({ cas: '1', test: { name: 'old' } })
+    await store.write('pl/1.json', existing)
+
+    const processed = await processJsonDocument(
+      'pl_1',
+      { cas: '2', test: { name: 'new' } },
+      store,
+      logger,
+      { cas: '2', index }
+    )
+
+    assert.equal(processed, false)
+    assert.deepEqual(
+      { ...index.get('pl_1'), fetchedAt: '' },
+      {
+        id: 'pl_1',
+        cas: '1',
+        path: 'pl/1.json',
+        size: existing.length,
+        sha256: createHash('sha256').update(existing).digest('hex'),
+        type: 'json',
+        fetchedAt: '',
+      }
+    )
+    assert.equal((await store.read('pl/1.json')).toString(), existing)
+  })
+})
@@ -4,12 +4,22 @@
  * Handles processing of individual documents from Couchbase
  */
 
-import { promises as fs } from 'fs'
+import { createHash } from 'crypto'
 import path from 'path'
+import { DocumentNotFoundError } from 'couchbase'
 import { fileTypeFromBuffer } from 'file-type'
-import { CouchbaseClient } from './couchbase'
+import { CacheArchiveWriter } from './cache-archive.js'
+import { CacheIndex } from './cache-index.js'
+import { CacheStore, type CacheStoreEntry } from './cache-store.js'
+import { CouchbaseClient, type Keyspace } from './couchbase.js'
+import { writeErrorToFile } from './error-handler.js'
 import { Logger } from './logger.js'
 
+/**
+ * Default location the document cache is written to
+ */
+export const CACHE_DIR = './tmp'
+
 export interface Document {
   id: string
   content: Buffer
@@ -84,108 +94,378 @@ function generateFilename(id: string): string {
 }
 
 /**
- * Detect file type from binary buffer and return appropriate extension
+ * Get the cache path for a document, relative to the cache directory
+ * Different IDs can map to the same filename (e.g. "a:b:c:x" and "a:b:x"), so
+ * when the path is already claimed by another document in the index a short
+ * hash of the ID is appended to keep them apart
+ * @param id Document ID
+ * @param extension File extension (including dot)
+ * @param index Optional cache index to check for collisions
+ * @returns Relative path (e.g., "pl/123.json" for "pl_123")
+ */
+export function getCachePath(
+  id: string,
+  extension: string,
+  index?: CacheIndex
+): string {
+  const safeFilename = generateFilename(id).replace(/[^a-zA-Z0-9._-]/g, '_')
+  const folderPath = generateFolderPath(id) ?? ''
+
+  const relativePath = path.posix.join(
+    folderPath,
+    `${safeFilename}${extension}`
+  )
+  const claimedBy = index?.getIdByPath(relativePath)
+  if (claimedBy === undefined || claimedBy === id) {
+    return relativePath
+  }
+
+  return path.posix.join(
+    folderPath,
+    `${safeFilename}-${getIdHash(id)}${extension}`
+  )
+}
+
+/**
+ * Get the short ID hash that keeps colliding cache paths apart
+ * @param id Document ID
+ * @returns First 8 hex characters of the SHA-1 of the ID
+ */
+function getIdHash(id: string): string {
+  return createHash('sha1').update(id).digest('hex').substring(0, 8)
+}
+
+/**
+ * Compute the hex SHA-256 digest of file content
+ * @param content File content
+ * @returns Hex digest
+ */
+function sha256(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Read the CAS a cached JSON document was written with
+ * @param content Content of the cached file
+ * @returns The CAS as a decimal string, or '' when the file has none
+ */
+function getCachedCas(content: Buffer): string {
+  try {
+    const { cas } = JSON.parse(content.toString('utf8')) as { cas?: unknown }
+    return typeof cas === 'string' || typeof cas === 'number' ? String(cas) : ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Check attachment content against the SHA-1 digest embedded in its ID
+ * (Sync Gateway attachment IDs look like "_sync:att:sha1-<base64 digest>")
+ * @param id Attachment document ID
+ * @param content Attachment content
+ * @returns Expected and actual digests, or null if the ID carries no digest
+ */
+export function verifyAttachmentDigest(
+  id: string,
+  content: Buffer
+): { expected: string; actual: string; matches: boolean } | null {
+  const match = /^_sync:att:sha1-(.+)$/.exec(id)
+  if (!match?.[1]) {
+    return null
+  }
+  const expected = match[1]
+  const actual = createHash('sha1').update(content).digest('base64')
+  return { expected, actual, matches: expected === actual }
+}
+
+/**
+ * Check attachment content against the filename it was cached under, for
+ * attachments the cache index has no ID for. The filename is the digest
+ * from the ID with unsafe base64 characters replaced, so the content's own
+ * digest is turned into a filename the same way and compared with it
+ * @param key Cache key of the attachment file
+ * @param content Attachment content
+ * @returns Filename (without extension) and the filename the content's
+ * digest gives
+ */
+export function verifyAttachmentFilename(
+  key: string,
+  content: Buffer
+): { expected: string; actual: string; matches: boolean } {
+  const expected = getStem(key)
+  const digest = createHash('sha1').update(content).digest('base64')
+  const id = `_sync:att:sha1-${digest}`
+  const actual = getStem(getCachePath(id, ''))
+  return {
+    expected,
+    actual,
+    // A collision with another attachment's path adds the ID hash
+    matches: expected === actual || expected === `${actual}-${getIdHash(id)}`,
+  }
+}
+
+/**
+ * Detect file type from binary buffer
  * @param buffer Binary data buffer
- * @returns File extension (including dot) or '.bin' as fallback
+ * @returns File extension (including dot) and MIME type, or '.bin' and
+ * 'application/octet-stream' as fallback
  */
-async function detectFileExtension(
+async function detectFileType(
   buffer: Buffer,
   logger: Logger
-): Promise<string> {
+): Promise<{ extension: string; mimeType: string }> {
   try {
     const fileType = await fileTypeFromBuffer(buffer)
     if (fileType) {
-      return `.${fileType.ext}`
+      return { extension: `.${fileType.ext}`, mimeType: fileType.mime }
     }
   } catch (error) {
     logger.warn('⚠️ Could not detect file type:', error)
   }
 
   // Fallback to .bin if detection fails
-  return '.bin'
+  return { extension: '.bin', mimeType: 'application/octet-stream' }
 }
 
 /**
- * Retry a function with exponential backoff
- * @param fn Function to retry
- * @param maxRetries Maximum number of retries (default: 3)
- * @param baseDelay Base delay in milliseconds (default: 1000)
- * @returns Promise that resolves with the function result
+ * Listings of attachment folders per cache store, mapping each file's stem
+ * (filename without extension) to its entry. Each folder is only listed once
+ * per process and kept up to date as attachments are written
  */
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  logger: Logger,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> {
-  let lastError: Error | undefined
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error) {
-      lastError = error as Error
-
-      if (attempt === maxRetries) {
-        logger.error(
-          `❌ Failed after ${maxRetries} attempts: ${lastError.message}`
-        )
-        throw lastError
-      }
+const attachmentListings: WeakMap<
+  CacheStore,
+  Map<string, Promise<Map<string, CacheStoreEntry>>>
+> = new WeakMap()
 
-      // Calculate delay with exponential backoff: baseDelay * 2^(attempt-1)
-      const delay = baseDelay * Math.pow(2, attempt - 1)
-      logger.warn(
-        `⚠️ Attempt ${attempt}/${maxRetries} failed, retrying in ${delay}ms: ${lastError.message}`
+/**
+ * Get the filename stem of a cache key
+ * @param key Cache store key
+ * @returns Filename without folder and extension
+ */
+function getStem(key: string): string {
+  const filename = path.posix.basename(key)
+  return filename.slice(
+    0,
+    filename.length - path.posix.extname(filename).length
+  )
+}
+
+/**
+ * Get the stem -> entry listing of an attachment folder
+ * @param store Cache store
+ * @param folder Folder to list
+ * @returns Map of file stems to entries
+ */
+function getAttachmentListing(
+  store: CacheStore,
+  folder: string
+): Promise<Map<string, CacheStoreEntry>> {
+  let storeListings = attachmentListings.get(store)
+  if (!storeListings) {
+    storeListings = new Map()
+    attachmentListings.set(store, storeListings)
+  }
+  let listing = storeListings.get(folder)
+  if (!listing) {
+    listing = store
+      .list(folder)
+      .then(
+        entries => new Map(entries.map(entry => [getStem(entry.key), entry]))
       )
+    storeListings.set(folder, listing)
+  }
+  return listing
+}
 
-      await new Promise(resolve => setTimeout(resolve, delay))
-    }
+/**
+ * Find an attachment that has already been cached under a filename stem,
+ * whatever extension its detected file type gave it
+ * @param store Cache store
+ * @param folder Folder the attachment is cached in
+ * @param stem Safe filename without extension
+ * @param logger Logger instance
+ * @returns Key of the cached file, or null if there is none (or it was a
+ * truncated zero-byte file, which is removed so it gets fetched again)
+ */
+async function findCachedAttachment(
+  store: CacheStore,
+  folder: string,
+  stem: string,
+  logger: Logger
+): Promise<string | null> {
+  const listing = await getAttachmentListing(store, folder)
+  const entry = listing.get(stem)
+  if (!entry) {
+    return null
+  }
+  if (entry.size > 0) {
+    return entry.key
   }
 
-  throw lastError || new Error('Unknown error occurred')
+  logger.warn(`⚠️ Removing truncated attachment ${entry.key} (0 bytes)`)
+  await store.delete(entry.key)
+  listing.delete(stem)
+  return null
+}
+
+/**
+ * Record a newly written attachment in its folder listing
+ * @param store Cache store
+ * @param entry Entry of the written attachment
+ */
+async function recordCachedAttachment(
+  store: CacheStore,
+  entry: CacheStoreEntry
+): Promise<void> {
+  const folder = path.posix.dirname(entry.key)
+  const listing = await getAttachmentListing(
+    store,
+    folder === '.' ? '' : folder
+  )
+  listing.set(getStem(entry.key), entry)
+}
+
+/**
+ * N1QL conditions that select or exclude binary attachments (and old
+ * revision bodies, which Sync Gateway also stores as binary documents)
+ */
+const ATTACHMENTS_CONDITION = `(META().id LIKE '_sync:att:%' OR META().id LIKE '_sync:rev:%')`
+const EXCLUDE_ATTACHMENTS_CONDITION = `META().id NOT LIKE '_sync:att:%' AND META().id NOT LIKE '_sync:rev:%'`
+
+/**
+ * Which documents to fetch (for a build-cache run or a direct ingest)
+ */
+export interface DocumentFilter {
+  type?: 'documents' | 'attachments' // JSON documents or binary attachments (default: both)
+  keyspace?: Keyspace // Scope and collection to read (default: the default collection)
+  ids?: string[] // Only these document IDs
+  includePrefixes?: string[]
+  excludePrefixes?: string[]
+}
+
+/**
+ * A document row as returned by the paging query in getDocuments
+ */
+export interface DocumentRow {
+  id: string
+  cas: string // Decimal string - CAS values don't fit in a JSON number
+  [key: string]: unknown
+}
+
+/**
+ * Check if a document ID refers to a binary attachment
+ * @param id Document ID
+ * @returns True for attachment and old revision bodies
+ */
+function isAttachmentId(id: string): boolean {
+  return id.startsWith('_sync:att:') || id.startsWith('_sync:rev:')
+}
+
+/**
+ * Check if a document ID passes a document filter, mirroring the N1QL
+ * conditions built by buildFilterConditions
+ * @param id Document ID
+ * @param filter Document filter
+ * @returns True if the document would be fetched with this filter
+ */
+function matchesFilter(id: string, filter: DocumentFilter): boolean {
+  const { type, ids, includePrefixes = [], excludePrefixes = [] } = filter
+
+  if (type !== undefined && isAttachmentId(id) !== (type === 'attachments')) {
+    return false
+  }
+  if (ids !== undefined && !ids.includes(id)) {
+    return false
+  }
+  if (
+    includePrefixes.length > 0 &&
+    !includePrefixes.some(prefix => id.startsWith(prefix))
+  ) {
+    return false
+  }
+  return !excludePrefixes.some(prefix => id.startsWith(prefix))
+}
+
+/**
+ * Turn an ID prefix into a LIKE pattern, escaping the LIKE wildcards so
+ * e.g. the underscore in "pl_" only matches a literal underscore
+ * @param prefix Document ID prefix
+ * @returns LIKE pattern matching IDs that start with the prefix
+ */
+function toLikePattern(prefix: string): string {
+  return `${prefix.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+/**
+ * Build the N1QL conditions and named parameters for a document filter
+ * Shared by getDocumentCount and getDocuments so the count, the progress bar
+ * and the fetch always agree
+ * @param filter Document filter
+ * @returns Conditions to AND together and their named parameters
+ */
+function buildFilterConditions(filter: DocumentFilter): {
+  conditions: string[]
+  parameters: Record<string, string | string[]>
+} {
+  const { type, ids, includePrefixes = [], excludePrefixes = [] } = filter
+  const conditions: string[] = []
+  const parameters: Record<string, string | string[]> = {}
+
+  if (type === 'documents') {
+    conditions.push(EXCLUDE_ATTACHMENTS_CONDITION)
+  } else if (type === 'attachments') {
+    conditions.push(ATTACHMENTS_CONDITION)
+  }
+
+  if (ids !== undefined) {
+    parameters['IDS'] = ids
+    conditions.push('META().id IN $IDS')
+  }
+
+  if (includePrefixes.length > 0) {
+    const includeConditions = includePrefixes.map((prefix, index) => {
+      parameters[`INCLUDE_${index}`] = toLikePattern(prefix)
+      return `META().id LIKE $INCLUDE_${index}`
+    })
+    conditions.push(`(${includeConditions.join(' OR ')})`)
+  }
+
+  excludePrefixes.forEach((prefix, index) => {
+    parameters[`EXCLUDE_${index}`] = toLikePattern(prefix)
+    conditions.push(`META().id NOT LIKE $EXCLUDE_${index}`)
+  })
+
+  return { conditions, parameters }
 }
 
 /**
  * Get total count of documents in the bucket
  * @param client Couchbase client instance
  * @param logger Logger instance
- * @param skipAttachments Whether to exclude attachments from count
+ * @param filter Which documents to count
  * @returns Total document count
  */
 export async function getDocumentCount(
   client: CouchbaseClient,
   logger: Logger,
-  skipAttachments: boolean = false
+  filter: DocumentFilter = {}
 ): Promise<number> {
-  const cluster = await client.getCluster()
   const config = client.getConfig()
 
-  let query: string
-  if (skipAttachments) {
-    // Count only non-attachment documents
-    query = `
-      SELECT COUNT(*) as count
-      FROM \`${config.bucketName}\`
-      WHERE META().id NOT LIKE '_sync:att:%' AND META().id NOT LIKE '_sync:rev:%'
-    `
-  } else {
-    // Count all documents
-    query = `
+  const { conditions, parameters } = buildFilterConditions(filter)
+  const query = `
       SELECT COUNT(*) as count
-      FROM \`${config.bucketName}\`
+      FROM ${client.getKeyspacePath(filter.keyspace)}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
     `
-  }
 
-  const result = await withRetry(
-    () =>
-      cluster.query<{ count: number }>(query, {
-        timeout: config.operationTimeout,
-      }),
-    logger,
-    3, // max retries
-    500
-  )
+  const result = await client.withRetry(async () => {
+    const cluster = await client.getCluster()
+    return cluster.query<{ count: number }>(query, {
+      timeout: config.operationTimeout,
+      parameters,
+    })
+  }, logger)
 
   if (result.rows.length > 0 && result.rows[0]?.count !== undefined) {
     return result.rows[0].count
@@ -195,163 +475,517 @@ export async function getDocumentCount(
 }
 
 /**
- * Paginate binary documents in the collection using N1QL for IDs, then KV for content
- * Processes documents immediately as they're retrieved instead of collecting in an array
+ * Fetch one page of documents (metadata and content) using N1QL
  * @param client Couchbase client instance
- * @param options Pagination options
- * @returns Promise containing pagination info and processing statistics
+ * @param options Pagination options (cursor is the last document ID seen, '' for the first page)
+ * @returns Promise containing the page of documents and pagination info
  */
 export async function getDocuments(
   client: CouchbaseClient,
   logger: Logger,
   options?: {
-    offset?: number
+    cursor?: string
     limit?: number
-    skipAttachments?: boolean
+    filter?: DocumentFilter
   }
 ): Promise<{
-  documentsProcessed: number
-  documentsSkipped: number
+  documents: DocumentRow[]
   hasMore: boolean
-  nextOffset: number
+  nextCursor: string
 }> {
-  const { offset = 0, limit = 10, skipAttachments = false } = options ?? {}
+  const { cursor = '', limit = 10, filter = {} } = options ?? {}
 
   // Get required objects from the client
-  const cluster = await client.getCluster()
   const config = client.getConfig()
 
-  // Get documents with both metadata and content using N1QL
+  // Get documents with both metadata and content using N1QL, paging by
+  // document ID (keyset pagination) so every page costs the same and
+  // documents added or removed mid-run don't shift the page boundaries
+  // Attachment content is binary and fetched through KV in
+  // processAttachment, so only select it for JSON documents
+  const { conditions, parameters } = buildFilterConditions(filter)
   const query = `
-      SELECT META().id as id, META().cas as cas, * 
-      FROM \`${config.bucketName}\`
-      LIMIT $LIMIT OFFSET $OFFSET
+      SELECT META().id as id, TOSTRING(META().cas) as cas${filter.type === 'attachments' ? '' : ', *'}
+      FROM ${client.getKeyspacePath(filter.keyspace)}
+      WHERE ${['META().id > $LAST_ID', ...conditions].join(' AND ')}
+      ORDER BY META().id
+      LIMIT $LIMIT
     `
 
-  const result = await withRetry(
-    () =>
-      cluster.query<{ id: string; cas: string; [key: string]: unknown }>(
-        query,
-        {
-          timeout: config.operationTimeout,
-          parameters: {
-            LIMIT: limit + 1,
-            OFFSET: offset,
-          },
-        }
-      ),
-    logger,
-    3, // max retries
-    500
-  )
+  const result = await client.withRetry(async () => {
+    const cluster = await client.getCluster()
+    return cluster.query<DocumentRow>(query, {
+      timeout: config.operationTimeout,
+      parameters: {
+        ...parameters,
+        LAST_ID: cursor,
+        LIMIT: limit + 1,
+      },
+    })
+  }, logger)
 
   const hasMore = result.rows.length > limit
   const documents = result.rows.slice(0, limit)
-  const nextOffset = hasMore ? offset + limit : offset
+  const nextCursor = documents[documents.length - 1]?.id ?? cursor
+
+  return {
+    documents,
+    hasMore,
+    nextCursor,
+  }
+}
+
+/**
+ * Get the Sync Gateway sequence of a document row
+ * @param row Document row
+ * @param bucketName Bucket the row was selected from
+ * @returns The _sync.sequence of the document, or undefined if it has none
+ */
+function getRowSequence(
+  row: DocumentRow,
+  bucketName: string
+): number | undefined {
+  const body = row[bucketName] as { _sync?: { sequence?: unknown } } | undefined
+  const sequence = body?._sync?.sequence
+  return typeof sequence === 'number' ? sequence : undefined
+}
+
+/**
+ * Get the highest Sync Gateway sequence among documents matching a filter
+ * @param client Couchbase client instance
+ * @param logger Logger instance
+ * @param filter Which documents to look at
+ * @returns Highest _sync.sequence, or 0 if no document has one
+ */
+export async function getLatestSequence(
+  client: CouchbaseClient,
+  logger: Logger,
+  filter: DocumentFilter = {}
+): Promise<number> {
+  const config = client.getConfig()
+
+  const { conditions, parameters } = buildFilterConditions(filter)
+  const query = `
+      SELECT MAX(_sync.sequence) as sequence
+      FROM ${client.getKeyspacePath(filter.keyspace)}
+      WHERE ${['_sync.sequence IS VALUED', ...conditions].join(' AND ')}
+    `
+
+  const result = await client.withRetry(async () => {
+    const cluster = await client.getCluster()
+    return cluster.query<{ sequence: number | null }>(query, {
+      timeout: config.operationTimeout,
+      parameters,
+    })
+  }, logger)
+
+  return result.rows[0]?.sequence ?? 0
+}
+
+/**
+ * Fetch one page of documents changed after a Sync Gateway sequence
+ * Every write through Sync Gateway gives the document a new, higher
+ * _sync.sequence, so paging by sequence follows changes in the order they
+ * were made
+ * @param client Couchbase client instance
+ * @param options Pagination options (since is the last sequence seen)
+ * @returns Promise containing the page of documents and pagination info
+ */
+export async function getChangedDocuments(
+  client: CouchbaseClient,
+  logger: Logger,
+  options: {
+    since: number
+    limit?: number
+    filter?: DocumentFilter
+  }
+): Promise<{
+  documents: DocumentRow[]
+  hasMore: boolean
+  nextSince: number
+}> {
+  const { since, limit = 100, filter = {} } = options
+
+  const config = client.getConfig()
+
+  const { conditions, parameters } = buildFilterConditions({
+    ...filter,
+    type: 'documents',
+  })
+  const query = `
+      SELECT META().id as id, TOSTRING(META().cas) as cas, *
+      FROM ${client.getKeyspacePath(filter.keyspace)}
+      WHERE ${['_sync.sequence > $SINCE', ...conditions].join(' AND ')}
+      ORDER BY _sync.sequence
+      LIMIT $LIMIT
+    `
+
+  const result = await client.withRetry(async () => {
+    const cluster = await client.getCluster()
+    return cluster.query<DocumentRow>(query, {
+      timeout: config.operationTimeout,
+      parameters: {
+        ...parameters,
+        SINCE: since,
+        LIMIT: limit + 1,
+      },
+    })
+  }, logger)
+
+  const hasMore = result.rows.length > limit
+  const documents = result.rows.slice(0, limit)
+  const nextSince = documents.reduce(
+    (latest, row) =>
+      Math.max(latest, getRowSequence(row, config.bucketName) ?? latest),
+    since
+  )
+
+  return {
+    documents,
+    hasMore,
+    nextSince,
+  }
+}
+
+/**
+ * Write a page of documents to the cache, processing up to `concurrency`
+ * documents (and therefore KV attachment fetches) at a time
+ * @param documents Documents returned by getDocuments
+ * @param client Couchbase client instance
+ * @param store Cache store to write to
+ * @param options Processing options
+ * @returns Promise containing processing statistics
+ */
+export async function processDocuments(
+  documents: DocumentRow[],
+  client: CouchbaseClient,
+  store: CacheStore,
+  logger: Logger,
+  options?: {
+    concurrency?: number
+    index?: CacheIndex
+    archive?: CacheArchiveWriter
+    incremental?: boolean
+    keyspace?: Keyspace
+    onDocumentDone?: () => void
+  }
+): Promise<{
+  documentsProcessed: number
+  documentsSkipped: number
+  documentsFailed: number
+  documentsChanged: number
+}> {
+  const {
+    concurrency = 10,
+    index,
+    archive,
+    incremental = false,
+    keyspace,
+    onDocumentDone,
+  } = options ?? {}
 
   let documentsProcessed = 0
   let documentsSkipped = 0
+  let documentsFailed = 0
+  let documentsChanged = 0
 
-  for (const doc of documents) {
+  const processDocument = async (doc: DocumentRow): Promise<boolean> => {
     const { id, ...content } = doc
-    try {
-      // Check if this is a binary attachment (starts with _sync:att:)
-      const isAttachment =
-        id.startsWith('_sync:att:') || id.startsWith('_sync:rev:')
-
-      if (isAttachment && skipAttachments) {
-        // Skip binary attachments when skipAttachments is enabled
-        logger.log(`⏭️ attachment: ${id} (--skip-attachments enabled)`)
-        documentsSkipped++
-        continue
-      }
+    if (isAttachmentId(id)) {
+      // Handle binary attachments
+      return processAttachment(id, client, store, logger, {
+        ...(index && { index }),
+        ...(keyspace && { keyspace }),
+      })
+    }
+
+    // Handle JSON documents - in incremental mode only documents whose CAS
+    // differs from the one recorded in the index are rewritten
+    const cas = doc.cas
+    const indexed = index?.get(id)
+    if (incremental && indexed?.cas === cas) {
+      logger.log(`⏭️ JSON document: ${indexed.path} (unchanged)`)
+      return false
+    }
+
+    const wasProcessed = await processJsonDocument(id, content, store, logger, {
+      cas,
+      overwrite: incremental,
+      ...(index && { index }),
+      ...(archive && { archive }),
+    })
+    if (wasProcessed && incremental && indexed) {
+      documentsChanged++
+    }
+    return wasProcessed
+  }
 
-      if (isAttachment) {
-        // Handle binary attachments
-        const wasProcessed = await processAttachment(id, client, logger)
-        if (wasProcessed) {
-          documentsProcessed++
-        } else {
-          documentsSkipped++
+  for (let i = 0; i < documents.length; i += concurrency) {
+    const batch = documents.slice(i, i + concurrency)
+
+    await Promise.allSettled(
+      batch.map(async doc => {
+        try {
+          const wasProcessed = await processDocument(doc)
+          if (wasProcessed) {
+            documentsProcessed++
+          } else {
+            documentsSkipped++
+          }
+        } catch (error) {
+          logger.error(`❌ Error processing document ${doc.id}:`, error)
+          // Continue with other documents even if one fails
+          documentsFailed++
+        } finally {
+          onDocumentDone?.()
         }
-      } else {
-        // Handle JSON documents
-        const wasProcessed = await processJsonDocument(id, content, logger)
-        if (wasProcessed) {
-          documentsProcessed++
-        } else {
-          documentsSkipped++
+      })
+    )
+  }
+
+  return {
+    documentsProcessed,
+    documentsSkipped,
+    documentsFailed,
+    documentsChanged,
+  }
+}
+
+/**
+ * Fetch specific documents by ID through KV and write them to the cache,
+ * processing up to `concurrency` documents at a time. JSON documents are
+ * written exactly as build-cache would write them; attachment IDs
+ * ("_sync:att:...") are downloaded like in the attachments pass
+ * @param ids Document IDs to fetch
+ * @param client Couchbase client instance
+ * @param store Cache store to write to
+ * @param options Processing options - with overwrite, cached JSON documents
+ * whose CAS differs from the fetched one are rewritten
+ * @returns Promise containing processing statistics
+ */
+export async function fetchDocumentsById(
+  ids: string[],
+  client: CouchbaseClient,
+  store: CacheStore,
+  logger: Logger,
+  options?: {
+    concurrency?: number
+    index?: CacheIndex
+    archive?: CacheArchiveWriter
+    overwrite?: boolean
+    keyspace?: Keyspace
+    onDocumentDone?: () => void
+  }
+): Promise<{
+  documentsProcessed: number
+  documentsSkipped: number
+  documentsFailed: number
+  documentsNotFound: string[]
+}> {
+  const {
+    concurrency = 10,
+    index,
+    archive,
+    overwrite = false,
+    keyspace,
+    onDocumentDone,
+  } = options ?? {}
+  const config = client.getConfig()
+
+  let documentsProcessed = 0
+  let documentsSkipped = 0
+  let documentsFailed = 0
+  const documentsNotFound: string[] = []
+
+  // Resolves to whether the document was written, or null if it doesn't exist
+  const fetchDocument = async (id: string): Promise<boolean | null> => {
+    if (isAttachmentId(id)) {
+      return processAttachment(id, client, store, logger, {
+        ...(index && { index }),
+        ...(keyspace && { keyspace }),
+      })
+    }
+
+    const result = await client.withRetry(async () => {
+      const collection = await client.getCollection(keyspace)
+      try {
+        return await collection.get(id, {
+          timeout: config.operationTimeout,
+        })
+      } catch (error) {
+        // A missing document won't turn up on a retry
+        if (error instanceof DocumentNotFoundError) {
+          return null
         }
+        throw error
       }
-    } catch (error) {
-      logger.error(`❌ Error processing document ${id}:`, error)
-      // Continue with other documents even if one fails
+    }, logger)
+    if (!result) {
+      return null
     }
+
+    // Shape the document like a row of the paging query
+    const cas: string = result.cas.toString()
+    const indexed = index?.get(id)
+    if (overwrite && indexed?.cas === cas) {
+      logger.log(`⏭️ JSON document: ${indexed.path} (unchanged)`)
+      return false
+    }
+
+    return processJsonDocument(
+      id,
+      { cas, [config.bucketName]: result.content },
+      store,
+      logger,
+      {
+        cas,
+        overwrite,
+        ...(index && { index }),
+        ...(archive && { archive }),
+      }
+    )
+  }
+
+  for (let i = 0; i < ids.length; i += concurrency) {
+    const batch = ids.slice(i, i + concurrency)
+
+    await Promise.allSettled(
+      batch.map(async id => {
+        try {
+          const wasProcessed = await fetchDocument(id)
+          if (wasProcessed === null) {
+            logger.warn(`⚠️ Document ${id} not found in Couchbase`)
+            documentsNotFound.push(id)
+          } else if (wasProcessed) {
+            documentsProcessed++
+          } else {
+            documentsSkipped++
+          }
+        } catch (error) {
+          logger.error(`❌ Error fetching document ${id}:`, error)
+          documentsFailed++
+        } finally {
+          onDocumentDone?.()
+        }
+      })
+    )
   }
 
   return {
     documentsProcessed,
     documentsSkipped,
-    hasMore,
-    nextOffset,
+    documentsFailed,
+    documentsNotFound,
+  }
+}
+
+/**
+ * Remove cached documents that no longer exist in Couchbase
+ * Pages are fetched in ID order, so any indexed document whose ID falls in
+ * the range a page covered but that was not returned has been deleted
+ * @param index Cache index
+ * @param store Cache store to remove files from
+ * @param indexedIds Sorted snapshot of the index IDs taken before the run
+ * @param range ID range covered by the page (upTo is omitted for the last page)
+ * @param seenIds IDs returned in the page
+ * @param filter Filter the page was fetched with
+ * @param archive Archive writer for documents cached in archive segments
+ * @returns Number of documents removed from the cache
+ */
+export async function removeDeletedDocuments(
+  index: CacheIndex,
+  store: CacheStore,
+  indexedIds: string[],
+  range: { after: string; upTo?: string },
+  seenIds: Set<string>,
+  filter: DocumentFilter,
+  logger: Logger,
+  archive?: CacheArchiveWriter
+): Promise<number> {
+  // Binary search for the first indexed ID after the start of the range
+  let low = 0
+  let high = indexedIds.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if ((indexedIds[mid] as string) <= range.after) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  let documentsDeleted = 0
+  for (let i = low; i < indexedIds.length; i++) {
+    const id = indexedIds[i] as string
+    if (range.upTo !== undefined && id > range.upTo) {
+      break
+    }
+    if (seenIds.has(id) || !matchesFilter(id, filter)) {
+      continue
+    }
+    const entry = index.get(id)
+    if (!entry) {
+      continue
+    }
+
+    if (entry.archived) {
+      archive?.delete(id, entry.path)
+    } else {
+      await store.delete(entry.path)
+    }
+    index.delete(id)
+    documentsDeleted++
+    logger.log(`🗑️ deleted: ${entry.path} (${id} no longer in Couchbase)`)
   }
+
+  return documentsDeleted
 }
 
 /**
  * Process a single attachment asynchronously
  * @param id Attachment document ID
  * @param client Couchbase client instance
+ * @param store Cache store to write to
+ * @param options Optional cache index to record the written file in, and
+ * the keyspace to fetch the attachment from
  * @returns Promise that resolves to true if processed, false if skipped
  */
 export async function processAttachment(
   id: string,
   client: CouchbaseClient,
-  logger: Logger
+  store: CacheStore,
+  logger: Logger,
+  options?: { index?: CacheIndex; keyspace?: Keyspace }
 ): Promise<boolean> {
   try {
     const config = client.getConfig()
-    const bucket = await client.getBucket()
-    const collection = bucket.defaultCollection()
 
     // Handle binary attachments
     const filename = generateFilename(id)
     const safeFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_')
-    const folderPath = generateFolderPath(id)
-    const tempDir = folderPath ? path.join('./tmp', folderPath) : './tmp'
-
-    // Ensure temp directory exists
-    await fs.mkdir(tempDir, { recursive: true })
+    const folderPath = generateFolderPath(id) ?? ''
 
-    // Check for existing files with common extensions
-    const possibleExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.pdf', '.bin']
-    let existingFile = null
-
-    for (const ext of possibleExtensions) {
-      const filePath = path.join(tempDir, `${safeFilename}${ext}`)
-      try {
-        await fs.access(filePath)
-        existingFile = filePath
-        break
-      } catch {
-        // File doesn't exist with this extension, continue
-      }
-    }
+    // Check for an existing file with any extension
+    const existingFile = await findCachedAttachment(
+      store,
+      folderPath,
+      safeFilename,
+      logger
+    )
 
     if (existingFile) {
-      logger.log(`⏭️ attachment: ${existingFile} (already exists)`)
+      const relativePath = `${store.location}/${existingFile}`.replace('./', '')
+      logger.log(`⏭️ attachment: ${relativePath} (already exists)`)
       return false
     }
 
     // Fetch the binary attachment using collection.get
-    const binaryDoc = await withRetry(
-      () =>
-        collection.get(id, {
-          timeout: config.operationTimeout,
-        }),
-      logger,
-      3, // max retries
-      1000 // base delay in ms
-    )
+    const binaryDoc = await client.withRetry(async () => {
+      const collection = await client.getCollection(options?.keyspace)
+      return collection.get(id, {
+        timeout: config.operationTimeout,
+      })
+    }, logger)
 
     // Process the binary document
     const document: Document = {
@@ -360,14 +994,44 @@ export async function processAttachment(
       cas: binaryDoc.cas.toString(),
     }
 
+    // Don't cache content that doesn't match the digest in its ID
+    const digest = verifyAttachmentDigest(id, document.content)
+    if (digest && !digest.matches) {
+      const error = new Error(
+        `SHA-1 mismatch for attachment ${id}: expected ${digest.expected}, got ${digest.actual}`
+      )
+      await writeErrorToFile(
+        store.location,
+        'attachments',
+        `${safeFilename}.json`,
+        error,
+        logger,
+        { id, ...digest, size: document.content.length }
+      )
+      throw error
+    }
+
     // Detect file type and get appropriate extension
-    const fileExtension = await detectFileExtension(document.content, logger)
+    const fileType = await detectFileType(document.content, logger)
 
     // Create file path with detected extension
-    const filePath = path.join(tempDir, `${safeFilename}${fileExtension}`)
+    const cachePath = getCachePath(id, fileType.extension, options?.index)
 
     // Write buffer content to file
-    await fs.writeFile(filePath, document.content)
+    await store.write(cachePath, document.content)
+    await recordCachedAttachment(store, {
+      key: cachePath,
+      size: document.content.length,
+    })
+    options?.index?.set({
+      id,
+      cas: document.cas,
+      path: cachePath,
+      size: document.content.length,
+      sha256: sha256(document.content),
+      type: fileType.mimeType,
+      fetchedAt: new Date().toISOString(),
+    })
 
     // Format file size appropriately (KB or MB)
     const fileSizeBytes = document.content.length
@@ -382,7 +1046,7 @@ export async function processAttachment(
     }
 
     // Show clean message with relative path and appropriate size
-    const relativePath = filePath.replace('./', '')
+    const relativePath = `${store.location}/${cachePath}`.replace('./', '')
     logger.log(`✅ attachment: ${relativePath} (${sizeDisplay})`)
     return true
   } catch (error) {
@@ -395,39 +1059,89 @@ export async function processAttachment(
  * Process a single JSON document asynchronously
  * @param id Document ID
  * @param content Document content (JSON object)
+ * @param store Cache store to write to
+ * @param options CAS and cache index to record the written file in, archive
+ * writer to write to instead of a file, and whether to overwrite an existing
+ * file
  * @returns Promise that resolves to true if processed, false if skipped
  */
 export async function processJsonDocument(
   id: string,
   content: Record<string, unknown>,
-  logger: Logger
+  store: CacheStore,
+  logger: Logger,
+  options?: {
+    cas?: string
+    index?: CacheIndex
+    archive?: CacheArchiveWriter
+    overwrite?: boolean
+  }
 ): Promise<boolean> {
+  const { cas, index, archive, overwrite = false } = options ?? {}
   try {
-    // Create a JSON file for the document
-    const filename = generateFilename(id)
-    const safeFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_')
-    const folderPath = generateFolderPath(id)
-    const tempDir = folderPath ? path.join('./tmp', folderPath) : './tmp'
-    await fs.mkdir(tempDir, { recursive: true })
+    const indexed = index?.get(id)
+    const cachePath = indexed?.path ?? getCachePath(id, '.json', index)
+    const relativePath = `${store.location}/${cachePath}`.replace('./', '')
+    const jsonContent = JSON.stringify(content, null, 2)
 
-    const jsonFilePath = path.join(tempDir, `${safeFilename}.json`)
+    // Archived documents are recorded in the archive segment for their
+    // folder instead of being written to their own file
+    if (archive) {
+      if (!overwrite && indexed?.archived) {
+        logger.log(`⏭️ JSON document: ${relativePath} (already archived)`)
+        return false
+      }
+      archive.write({ id, path: cachePath, cas: cas ?? '', content })
+      index?.set({
+        id,
+        cas: cas ?? '',
+        path: cachePath,
+        size: Buffer.byteLength(jsonContent, 'utf8'),
+        sha256: sha256(jsonContent),
+        type: 'json',
+        fetchedAt: new Date().toISOString(),
+        archived: true,
+      })
+      logger.log(`✅ JSON document: ${relativePath} (archived)`)
+      return true
+    }
 
     // Check if JSON file already exists
-    try {
-      await fs.access(jsonFilePath)
-      const relativePath = jsonFilePath.replace('./', '')
+    if (!overwrite && (await store.exists(cachePath))) {
+      // Files cached before there was an index, or lost from it by a crash
+      // before a flush, are indexed with the CAS they were written with, so
+      // incremental runs refresh them if they are stale
+      if (index && !indexed) {
+        const existing = await store.read(cachePath)
+        index.set({
+          id,
+          cas: getCachedCas(existing),
+          path: cachePath,
+          size: existing.length,
+          sha256: sha256(existing),
+          type: 'json',
+          fetchedAt: new Date().toISOString(),
+        })
+      }
       logger.log(`⏭️ JSON document: ${relativePath} (already exists)`)
       return false
-    } catch {
-      // File doesn't exist, continue processing
     }
 
     // Write JSON document to file
-    const jsonContent = JSON.stringify(content, null, 2)
-    await fs.writeFile(jsonFilePath, jsonContent, 'utf8')
+    await store.write(cachePath, jsonContent)
+    if (index && cas !== undefined) {
+      index.set({
+        id,
+        cas,
+        path: cachePath,
+        size: Buffer.byteLength(jsonContent, 'utf8'),
+        sha256: sha256(jsonContent),
+        type: 'json',
+        fetchedAt: new Date().toISOString(),
+      })
+    }
 
     // Show clean message with relative path
-    const relativePath = jsonFilePath.replace('./', '')
     logger.log(`✅ JSON document: ${relativePath}`)
     return true
   } catch (error) {
@@ -14,6 +14,16 @@ export const env = createEnv({
 
     // Couchbase Bucket Configuration
     COUCHBASE_BUCKET_NAME: z.string().default('default'),
+    COUCHBASE_SCOPE: z.string().default('_default'),
+    COUCHBASE_COLLECTIONS: z
+      .string()
+      .default('_default')
+      .transform(value =>
+        value
+          .split(',')
+          .map(collection => collection.trim())
+          .filter(collection => collection !== '')
+      ), // Comma-separated collection names within the scope
 
     // Couchbase Connection Options
     COUCHBASE_CONNECTION_TIMEOUT: z.coerce.number().default(10000),
@@ -29,14 +39,44 @@ export const env = createEnv({
     GOOGLE_APPLICATION_JSON: z.string().optional(),
 
     // Okta Configuration
-    OKTA_TOKEN: z.string(),
-    OKTA_TOKEN_2: z.string(),
+    OKTA_BASE_URL: z.url().default('https://signon.okta.com'), // Org (or mock) the users API is called on
+    OKTA_TOKENS: z
+      .string()
+      .default('')
+      .transform(value =>
+        value
+          .split(',')
+          .map(token => token.trim())
+          .filter(token => token !== '')
+      ), // Comma-separated API tokens requests are spread over
+    OKTA_TOKEN: z.string().optional(), // Used if OKTA_TOKENS isn't set
+    OKTA_TOKEN_2: z.string().optional(),
+    OKTA_CACHE_TTL_HOURS: z.coerce.number().min(0).default(24), // Also ages out the okta-sync snapshot; 0 = always fetch
+
+    // Retry Policy Overrides (applied to Couchbase, Okta, Firebase and Prisma)
+    RETRY_MAX_ATTEMPTS: z.coerce.number().int().min(1).optional(),
+    RETRY_BASE_DELAY_MS: z.coerce.number().min(0).optional(),
+    RETRY_MAX_DELAY_MS: z.coerce.number().min(0).optional(),
+    RETRY_MAX_ELAPSED_MS: z.coerce.number().min(0).optional(), // 0 = no limit
+    RETRY_JITTER: z.coerce.number().min(0).max(1).optional(),
+
+    // S3-compatible Cache Store Configuration (for s3:// cache locations)
+    S3_ENDPOINT: z.string().optional(),
+    S3_REGION: z.string().default('us-east-1'),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_FORCE_PATH_STYLE: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform(value => value === 'true'),
   },
   runtimeEnv: {
     COUCHBASE_CONNECTION_STRING: process.env['COUCHBASE_CONNECTION_STRING'],
     COUCHBASE_USERNAME: process.env['COUCHBASE_USERNAME'],
     COUCHBASE_PASSWORD: process.env['COUCHBASE_PASSWORD'],
     COUCHBASE_BUCKET_NAME: process.env['COUCHBASE_BUCKET_NAME'],
+    COUCHBASE_SCOPE: process.env['COUCHBASE_SCOPE'],
+    COUCHBASE_COLLECTIONS: process.env['COUCHBASE_COLLECTIONS'],
     COUCHBASE_CONNECTION_TIMEOUT: process.env['COUCHBASE_CONNECTION_TIMEOUT'],
     COUCHBASE_OPERATION_TIMEOUT: process.env['COUCHBASE_OPERATION_TIMEOUT'],
     COUCHBASE_TRUST_STORE_PATH: process.env['COUCHBASE_TRUST_STORE_PATH'],
@@ -44,8 +84,21 @@ export const env = createEnv({
     PRISMA_API_MEDIA_URL: process.env['PRISMA_API_MEDIA_URL'],
     PRISMA_USERS_URL: process.env['PRISMA_USERS_URL'],
     GOOGLE_APPLICATION_JSON: process.env['GOOGLE_APPLICATION_JSON'],
+    OKTA_BASE_URL: process.env['OKTA_BASE_URL'],
+    OKTA_TOKENS: process.env['OKTA_TOKENS'],
     OKTA_TOKEN: process.env['OKTA_TOKEN'],
     OKTA_TOKEN_2: process.env['OKTA_TOKEN_2'],
+    OKTA_CACHE_TTL_HOURS: process.env['OKTA_CACHE_TTL_HOURS'],
+    RETRY_MAX_ATTEMPTS: process.env['RETRY_MAX_ATTEMPTS'],
+    RETRY_BASE_DELAY_MS: process.env['RETRY_BASE_DELAY_MS'],
+    RETRY_MAX_DELAY_MS: process.env['RETRY_MAX_DELAY_MS'],
+    RETRY_MAX_ELAPSED_MS: process.env['RETRY_MAX_ELAPSED_MS'],
+    RETRY_JITTER: process.env['RETRY_JITTER'],
+    S3_ENDPOINT: process.env['S3_ENDPOINT'],
+    S3_REGION: process.env['S3_REGION'],
+    S3_ACCESS_KEY_ID: process.env['S3_ACCESS_KEY_ID'],
+    S3_SECRET_ACCESS_KEY: process.env['S3_SECRET_ACCESS_KEY'],
+    S3_FORCE_PATH_STYLE: process.env['S3_FORCE_PATH_STYLE'],
   },
   skipValidation: !!process.env['SKIP_ENV_VALIDATION'],
 })
@@ -4,13 +4,13 @@
  * Handles writing errors to files and managing error directories
  */
 
-import { promises as fs } from 'fs'
 import path from 'path'
+import { openCacheStore } from './cache-store.js'
 import { Logger } from './logger.js'
 
 /**
  * Write error to errors directory
- * @param sourceDir Base source directory
+ * @param sourceDir Base source directory (local directory or s3:// location)
  * @param category Error category (e.g., 'users', 'playlists')
  * @param filePath Original file path
  * @param error Error that occurred
@@ -26,12 +26,8 @@ export async function writeErrorToFile(
   data?: unknown
 ): Promise<void> {
   try {
-    const errorsDir = path.join(sourceDir, 'errors', category)
-    await fs.mkdir(errorsDir, { recursive: true })
-
     // Extract filename from filePath
     const filename = path.basename(filePath)
-    const errorFilePath = path.join(errorsDir, filename)
 
     // Convert error to string
     const errorString =
@@ -55,10 +51,9 @@ export async function writeErrorToFile(
     }
 
     // Write as JSON for better readability
-    await fs.writeFile(
-      errorFilePath,
-      JSON.stringify(errorObject, null, 2),
-      'utf8'
+    await openCacheStore(sourceDir).write(
+      `errors/${category}/${filename}`,
+      JSON.stringify(errorObject, null, 2)
     )
   } catch (writeError) {
     logger.error(`❌ Failed to write error file for ${filePath}:`, writeError)
@@ -67,7 +62,7 @@ export async function writeErrorToFile(
 
 /**
  * Clear errors directory for a specific category
- * @param sourceDir Base source directory
+ * @param sourceDir Base source directory (local directory or s3:// location)
  * @param category Error category (e.g., 'users', 'playlists')
  * @param logger Logger instance
  */
@@ -77,21 +72,15 @@ export async function clearErrorsDirectory(
   logger: Logger
 ): Promise<void> {
   try {
-    const errorsDir = path.join(sourceDir, 'errors', category)
-    // Check if directory exists
-    try {
-      await fs.access(errorsDir)
-      // Directory exists, remove all files
-      const files = await fs.readdir(errorsDir)
-      for (const file of files) {
-        await fs.unlink(path.join(errorsDir, file))
-      }
+    const store = openCacheStore(sourceDir)
+    const entries = await store.list(`errors/${category}`)
+    for (const entry of entries) {
+      await store.delete(entry.key)
+    }
+    if (entries.length > 0) {
       logger.info(
-        `🧹 Cleared ${files.length} error file(s) from errors/${category}/`
+        `🧹 Cleared ${entries.length} error file(s) from errors/${category}/`
       )
-    } catch {
-      // Directory doesn't exist, create it
-      await fs.mkdir(errorsDir, { recursive: true })
     }
   } catch (error) {
     logger.warn(`⚠️ Could not clear errors directory:`, error)
@@ -0,0 +1,197 @@
+/**
+ * Fake Okta Server
+ *
+ * A small in-process stand-in for the Okta users API, so the Okta paths of
+ * the users pipeline and okta-sync can be exercised offline. It answers the
+ * two calls OktaClient makes - the theKeyGuid search and the paged users
+ * list - from a fixed set of users, and can be told to answer some
+ * theKeyGuids with a 404 or a 429 with x-rate-limit-reset. Users sharing a
+ * theKeyGuid come back as a multi-match. Point a client at it with
+ * new OktaClient({ baseUrl: server.url, tokens: ['fake'] }, logger). It
+ * runs in the calling process, so it only serves clients created there
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import type { OktaUser } from './okta.js'
+
+export interface FakeOktaServerOptions {
+  users?: OktaUser[] // Users searches and lists are answered from
+  notFound?: string[] // theKeyGuids whose search is answered with a 404
+  rateLimited?: string[] // theKeyGuids whose search is answered with a 429
+  rateLimit?: number // Requests per window reported in x-rate-limit-* headers (default: 600)
+  rateLimitWindowMs?: number // Length of a rate limit window, which 429s wait out (default: 60000)
+  pageSize?: number // Largest page of the users list (default: the limit asked for)
+}
+
+export interface FakeOktaRequest {
+  method: string
+  url: string
+  status: number
+}
+
+export interface FakeOktaServer {
+  url: string // Base URL to call the fake on (http://127.0.0.1:<port>)
+  requests: FakeOktaRequest[] // Every request answered, in order
+  close(): Promise<void>
+}
+
+/**
+ * Read the theKeyGuid a users search filters on
+ * @param search search parameter (e.g. profile.theKeyGuid eq "abc")
+ * @returns The theKeyGuid, null for a search on every user with one
+ * (profile.theKeyGuid pr), or undefined for a search the fake can't answer
+ */
+function parseSearch(search: string): string | null | undefined {
+  if (/^\s*profile\.theKeyGuid\s+pr\s*$/.test(search)) {
+    return null
+  }
+  const match = /^\s*profile\.theKeyGuid\s+eq\s+"([^"]*)"\s*$/.exec(search)
+  return match ? (match[1] ?? '') : undefined
+}
+
+/**
+ * Send a JSON response
+ * @param res Server response
+ * @param status HTTP status
+ * @param body Response body
+ * @param headers Extra headers
+ */
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Build an Okta error body
+ * @param errorCode Okta error code (e.g. E0000007)
+ * @param errorSummary Error message
+ */
+function oktaError(errorCode: string, errorSummary: string): object {
+  return { errorCode, errorSummary, errorLink: errorCode, errorCauses: [] }
+}
+
+/**
+ * Start a fake Okta server on a free local port
+ * @param options Users to serve and which searches fail
+ * @returns The running server
+ */
+export async function startFakeOktaServer(
+  options: FakeOktaServerOptions = {}
+): Promise<FakeOktaServer> {
+  const {
+    users = [],
+    notFound = [],
+    rateLimited = [],
+    rateLimit = 600,
+    rateLimitWindowMs = 60000,
+  } = options
+  const requests: FakeOktaRequest[] = []
+  const windows: Map<string, { resetAt: number; used: number }> = new Map()
+
+  /**
+   * Count a request against its token's window and get the rate limit
+   * headers to send with it
+   */
+  const getRateLimitHeaders = (
+    authorization: string | undefined
+  ): Record<string, string> => {
+    const now = Date.now()
+    const token = authorization ?? ''
+    let window = windows.get(token)
+    if (!window || now >= window.resetAt) {
+      window = { resetAt: now + rateLimitWindowMs, used: 0 }
+      windows.set(token, window)
+    }
+    window.used++
+    return {
+      'x-rate-limit-limit': String(rateLimit),
+      'x-rate-limit-remaining': String(Math.max(0, rateLimit - window.used)),
+      'x-rate-limit-reset': String(Math.ceil(window.resetAt / 1000)),
+    }
+  }
+
+  const handle = (req: IncomingMessage, res: ServerResponse): number => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`)
+    if (req.method !== 'GET' || url.pathname !== '/api/v1/users') {
+      sendJson(res, 404, oktaError('E0000022', 'The endpoint does not exist.'))
+      return 404
+    }
+    if (!req.headers.authorization?.startsWith('SSWS ')) {
+      sendJson(res, 401, oktaError('E0000011', 'Invalid token provided'))
+      return 401
+    }
+
+    const headers = getRateLimitHeaders(req.headers.authorization)
+    const theKeyGuid = parseSearch(url.searchParams.get('search') ?? '')
+    if (theKeyGuid === undefined) {
+      sendJson(res, 400, oktaError('E0000031', 'Invalid search.'), headers)
+      return 400
+    }
+
+    if (theKeyGuid !== null) {
+      if (rateLimited.includes(theKeyGuid)) {
+        sendJson(
+          res,
+          429,
+          oktaError(
+            'E0000047',
+            'API call exceeded rate limit due to too many requests.'
+          ),
+          { ...headers, 'x-rate-limit-remaining': '0' }
+        )
+        return 429
+      }
+      if (notFound.includes(theKeyGuid)) {
+        sendJson(res, 404, oktaError('E0000007', 'Not found'), headers)
+        return 404
+      }
+      sendJson(
+        res,
+        200,
+        users.filter(user => user.profile.theKeyGuid === theKeyGuid),
+        headers
+      )
+      return 200
+    }
+
+    // Page through every user, with the ID of the last user as the cursor
+    const limit = Math.min(
+      Number(url.searchParams.get('limit')) || 200,
+      options.pageSize ?? Infinity
+    )
+    const after = url.searchParams.get('after')
+    const start = after ? users.findIndex(user => user.id === after) + 1 : 0
+    const page = users.slice(start, start + limit)
+    const links = [`<${url.href}>; rel="self"`]
+    const last = page[page.length - 1]
+    if (last && start + limit < users.length) {
+      const next = new URL(url.href)
+      next.searchParams.set('after', last.id)
+      links.push(`<${next.href}>; rel="next"`)
+    }
+    sendJson(res, 200, page, { ...headers, link: links.join(', ') })
+    return 200
+  }
+
+  const server = createServer((req, res) => {
+    const status = handle(req, res)
+    requests.push({ method: req.method ?? 'GET', url: req.url ?? '/', status })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(error => (error ? reject(error) : resolve()))
+      ),
+  }
+}
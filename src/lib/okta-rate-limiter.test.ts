@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+import { Logger } from './logger.js'
+import { OktaRateLimiter } from './okta-rate-limiter.js'
+
+const logger = new Logger(false)
+const originalFetch = globalThis.fetch
+
+/**
+ * Answer fetch calls in turn: a number is a status with rate limit headers
+ * for a window of one request that has already reset, null a network error
+ */
+function stubFetch(answers: (number | null)[]): { calls: number } {
+  const stats = { calls: 0 }
+  globalThis.fetch = async () => {
+    const status = answers[stats.calls++]
+    if (status === null || status === undefined) {
+      throw new TypeError('fetch failed')
+    }
+    return new Response('[]', {
+      status,
+      headers: {
+        'x-rate-limit-limit': '1',
+        'x-rate-limit-remaining': '0',
+        'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) - 1),
+      },
+    })
+  }
+  return stats
+}
+
+describe('OktaRateLimiter', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  it('needs at least one token', () => {
+    assert.throws(() => new OktaRateLimiter([], logger), /No Okta tokens/)
+  })
+
+  it('spreads requests over every token', async () => {
+    stubFetch([200, 200, 200, 200])
+    const limiter = new OktaRateLimiter(['a', 'b'], logger)
+    await Promise.all([
+      limiter.fetch('http://okta.test/1'),
+      limiter.fetch('http://okta.test/2'),
+    ])
+    assert.deepEqual(
+      limiter.getUsage().map(usage => usage.requests),
+      [1, 1]
+    )
+  })
+
+  it('gives the budget back after network errors once the limit is known', async () => {
+    const stats = stubFetch([200, null, null, 200])
+    const limiter = new OktaRateLimiter(['a'], logger)
+
+    await limiter.fetch('http://okta.test/1')
+    await assert.rejects(limiter.fetch('http://okta.test/2'), /fetch failed/)
+    await assert.rejects(limiter.fetch('http://okta.test/3'), /fetch failed/)
+    const response = await limiter.fetch('http://okta.test/4')
+
+    assert.equal(response.status, 200)
+    assert.equal(stats.calls, 4)
+    assert.equal(limiter.getUsage()[0]?.limit, 1)
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Okta Rate Limiter
+ *
+ * Spreads Okta API requests over every configured API token. Each token gets
+ * a token bucket sized by the x-rate-limit-limit header Okta returns, and
+ * x-rate-limit-remaining and x-rate-limit-reset are read from every response
+ * to keep the bucket in step with Okta. Requests go to whichever token has
+ * the most budget left and wait for a reset when none has any, instead of
+ * spending requests on 429 responses
+ */
+
+import { env } from './env.js'
+import { Logger } from './logger.js'
+
+interface TokenBucket {
+  token: string
+  name: string // "token 1", "token 2", ... (tokens themselves are never logged)
+  limit: number | null // Requests per window, unknown until the first response
+  remaining: number // Requests left in the window, less those in flight
+  resetAt: number | null // When the window resets (ms since epoch)
+  inFlight: number
+  requests: number
+}
+
+export interface OktaTokenUsage {
+  name: string
+  requests: number // Requests sent with the token
+  limit: number | null // Requests per window, if Okta reported it
+}
+
+/**
+ * Get the configured Okta API tokens
+ * @returns OKTA_TOKENS, or OKTA_TOKEN and OKTA_TOKEN_2 if it isn't set
+ */
+export function getOktaTokens(): string[] {
+  const tokens =
+    env.OKTA_TOKENS.length > 0
+      ? env.OKTA_TOKENS
+      : [env.OKTA_TOKEN, env.OKTA_TOKEN_2].filter(
+          (token): token is string => token !== undefined && token !== ''
+        )
+  return Array.from(new Set(tokens))
+}
+
+/**
+ * Read a numeric rate limit header
+ * @param headers Response headers
+ * @param name Header name
+ * @returns Header value, or null if it is missing or not a number
+ */
+function getRateLimitHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name)
+  if (value === null) {
+    return null
+  }
+  const number = parseInt(value, 10)
+  return Number.isNaN(number) ? null : number
+}
+
+export class OktaRateLimiter {
+  private buckets: TokenBucket[]
+  private waiters: (() => void)[] = []
+  private wakeTimer: NodeJS.Timeout | null = null
+  private waitingFor: number | null = null // Reset last logged as waited for
+  private logger: Logger
+
+  constructor(tokens: string[], logger: Logger) {
+    if (tokens.length === 0) {
+      throw new Error('No Okta tokens configured (set OKTA_TOKENS)')
+    }
+    // Until Okta reports a token's limit, only one request at a time probes it
+    this.buckets = tokens.map((token, index) => ({
+      token,
+      name: `token ${index + 1}`,
+      limit: null,
+      remaining: 1,
+      resetAt: null,
+      inFlight: 0,
+      requests: 0,
+    }))
+    this.logger = logger
+  }
+
+  /**
+   * Send a request to Okta with whichever token has budget, waiting for one
+   * if none does
+   * @param url Request URL
+   * @param init Request options (the Authorization header is set here)
+   * @returns The response
+   */
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const bucket = await this.acquire()
+    let response: Response | undefined
+    try {
+      const headers = new Headers(init?.headers)
+      headers.set('Authorization', `SSWS ${bucket.token}`)
+      response = await fetch(url, { ...init, headers })
+      return response
+    } finally {
+      this.release(bucket, response?.headers ?? null)
+    }
+  }
+
+  /**
+   * Get the number of requests sent with each token
+   */
+  getUsage(): OktaTokenUsage[] {
+    return this.buckets.map(({ name, requests, limit }) => ({
+      name,
+      requests,
+      limit,
+    }))
+  }
+
+  /**
+   * Take one request from the bucket with the most budget (internal method)
+   */
+  private async acquire(): Promise<TokenBucket> {
+    for (;;) {
+      const bucket = this.pickBucket(Date.now())
+      if (bucket) {
+        bucket.remaining--
+        bucket.inFlight++
+        bucket.requests++
+        return bucket
+      }
+      await new Promise<void>(resolve => {
+        this.waiters.push(resolve)
+        this.scheduleWake()
+      })
+    }
+  }
+
+  /**
+   * Refill buckets whose window has reset and pick the one with the most
+   * budget (internal method)
+   */
+  private pickBucket(now: number): TokenBucket | null {
+    let best: TokenBucket | null = null
+    for (const bucket of this.buckets) {
+      if (bucket.resetAt !== null && now >= bucket.resetAt) {
+        bucket.remaining = (bucket.limit ?? 1) - bucket.inFlight
+        bucket.resetAt = null
+      }
+      if (
+        bucket.remaining > 0 &&
+        (!best || bucket.remaining > best.remaining)
+      ) {
+        best = bucket
+      }
+    }
+    return best
+  }
+
+  /**
+   * Update a bucket from the rate limit headers of a response and let
+   * waiting requests try again (internal method)
+   */
+  private release(bucket: TokenBucket, headers: Headers | null): void {
+    bucket.inFlight--
+
+    const limit = headers && getRateLimitHeader(headers, 'x-rate-limit-limit')
+    const remaining =
+      headers && getRateLimitHeader(headers, 'x-rate-limit-remaining')
+    const reset = headers && getRateLimitHeader(headers, 'x-rate-limit-reset')
+
+    if (remaining !== null && reset !== null) {
+      if (limit !== null) {
+        bucket.limit = limit
+      }
+      // Okta's count doesn't include requests still in flight on this token,
+      // and responses can arrive out of order within a window
+      const resetAt = reset * 1000
+      const budget = remaining - bucket.inFlight
+      bucket.remaining =
+        bucket.resetAt === resetAt ? Math.min(bucket.remaining, budget) : budget
+      bucket.resetAt = resetAt
+    } else if (bucket.limit === null || bucket.resetAt === null) {
+      // Without rate limit headers there is nothing to pace by - unless a
+      // reset is already due, hand the request back so the token isn't stuck
+      // waiting for a reset that never comes (e.g. after network errors)
+      bucket.remaining++
+    }
+
+    this.wake()
+  }
+
+  /**
+   * Wake waiting requests when the first bucket resets (internal method)
+   * If no bucket has a reset time, a request in flight wakes them instead
+   */
+  private scheduleWake(): void {
+    const resets = this.buckets
+      .map(bucket => bucket.resetAt)
+      .filter((resetAt): resetAt is number => resetAt !== null)
+    if (resets.length === 0 || this.wakeTimer) {
+      return
+    }
+    const resetAt = Math.min(...resets)
+    const delay = Math.max(0, resetAt - Date.now())
+    if (this.waitingFor !== resetAt) {
+      this.waitingFor = resetAt
+      this.logger.log(
+        `⏳ Okta tokens out of budget, waiting ${delay}ms for a rate limit reset`
+      )
+    }
+    this.wakeTimer = setTimeout(() => this.wake(), delay)
+  }
+
+  /**
+   * Let every waiting request try to acquire a bucket again (internal method)
+   */
+  private wake(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer)
+      this.wakeTimer = null
+    }
+    const waiters = this.waiters
+    this.waiters = []
+    for (const resolve of waiters) {
+      resolve()
+    }
+  }
+}
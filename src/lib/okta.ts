@@ -0,0 +1,203 @@
+/**
+ * Okta Client
+ *
+ * The Okta users API calls the migrator makes: searching for a user by
+ * theKeyGuid and listing users page by page. Requests go to OKTA_BASE_URL,
+ * spread over the configured tokens by the rate limiter and retried under
+ * the Okta retry policy
+ */
+
+import { env } from './env.js'
+import { Logger } from './logger.js'
+import {
+  getOktaTokens,
+  OktaRateLimiter,
+  type OktaTokenUsage,
+} from './okta-rate-limiter.js'
+import { fetchWithRetry, getRetryOptions, type RetryOptions } from './retry.js'
+
+// Largest page the users API returns
+const PAGE_SIZE = 200
+
+/**
+ * A user as returned by the Okta users API
+ */
+export interface OktaUser {
+  id: string
+  status:
+    | 'ACTIVE'
+    | 'DEPROVISIONED'
+    | 'LOCKED_OUT'
+    | 'PASSWORD_EXPIRED'
+    | 'PROVISIONED'
+    | 'RECOVERY'
+    | 'STAGED'
+    | 'SUSPENDED'
+  activated: string | null // ISO date-time
+  created: string // ISO date-time
+  lastLogin: string | null // ISO date-time
+  lastUpdated: string // ISO date-time
+  passwordChanged: string | null // ISO date-time
+  statusChanged: string | null // ISO date-time
+  transitioningToStatus: 'ACTIVE' | 'DEPROVISIONED' | 'PROVISIONED' | null
+  realmId: string
+  profile: {
+    firstName?: string
+    lastName?: string
+    theKeyGuid: string
+  }
+  credentials?: {
+    emails?: {
+      type: 'PRIMARY' | 'SECONDARY'
+      status: 'VERIFIED' | 'UNVERIFIED'
+      value: string
+    }[]
+    password?: {
+      value?: string
+      hash?: {
+        algorithm: string
+        salt?: string
+        saltOrder?: string
+        value: string
+        workFactor?: number
+      }
+      hook?: {
+        type: string
+      }
+    }
+    provider?: {
+      name: string
+      type:
+        | 'ACTIVE_DIRECTORY'
+        | 'FEDERATION'
+        | 'IMPORT'
+        | 'LDAP'
+        | 'OKTA'
+        | 'SOCIAL'
+    }
+    recovery_question?: {
+      question: string
+    }
+  }
+}
+
+/**
+ * Result of a users search: the users found, or the error Okta answered with
+ */
+export type OktaSearchResult =
+  | { ok: true; users: OktaUser[] }
+  | { ok: false; status: number; body: string }
+
+export interface OktaUsersPage {
+  users: OktaUser[]
+  next: string | null // URL of the next page, null on the last page
+}
+
+/**
+ * Get the URL of the next page from a Link header
+ * @param linkHeader Link header of a users API response
+ * @returns URL with rel="next", or null on the last page
+ */
+function getNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) {
+    return null
+  }
+  for (const link of linkHeader.split(',')) {
+    const match = /<([^>]+)>\s*;\s*rel="?next"?/.exec(link)
+    if (match?.[1]) {
+      return match[1]
+    }
+  }
+  return null
+}
+
+export class OktaClient {
+  private baseUrl: string
+  private limiter: OktaRateLimiter
+  private retryOptions: RetryOptions
+
+  /**
+   * @param options API tokens (default: the configured tokens) and base URL
+   * (default: OKTA_BASE_URL)
+   * @param logger Logger instance
+   */
+  constructor(
+    options: { tokens?: string[]; baseUrl?: string },
+    logger: Logger
+  ) {
+    this.baseUrl = (options.baseUrl ?? env.OKTA_BASE_URL).replace(/\/+$/, '')
+    this.limiter = new OktaRateLimiter(
+      options.tokens ?? getOktaTokens(),
+      logger
+    )
+    this.retryOptions = getRetryOptions('okta', logger, 'Okta')
+  }
+
+  /**
+   * Search for the users with a theKeyGuid
+   * @param theKeyGuid SSO GUID to search for
+   * @returns Users found (an exact match should be one user), or Okta's error
+   * @throws If Okta can't be reached
+   */
+  async searchByTheKeyGuid(theKeyGuid: string): Promise<OktaSearchResult> {
+    const search = `profile.theKeyGuid eq "${theKeyGuid}"`
+    const response = await this.get(
+      `${this.baseUrl}/api/v1/users?search=${encodeURIComponent(search)}`
+    )
+    if (!response.ok) {
+      return { ok: false, status: response.status, body: await response.text() }
+    }
+    return { ok: true, users: (await response.json()) as OktaUser[] }
+  }
+
+  /**
+   * List a page of the users with a theKeyGuid
+   * Uses a search rather than the plain users list, which leaves out
+   * deprovisioned users that searchByTheKeyGuid would still find
+   * @param url URL of the page from the previous page's next, or null for
+   * the first page
+   * @returns Users on the page and the URL of the next page
+   * @throws If Okta can't be reached or answers with an error
+   */
+  async listUsersPage(url: string | null): Promise<OktaUsersPage> {
+    const response = await this.get(
+      url ??
+        `${this.baseUrl}/api/v1/users?search=${encodeURIComponent('profile.theKeyGuid pr')}&limit=${PAGE_SIZE}`
+    )
+    if (!response.ok) {
+      throw new Error(
+        `Okta API error (${response.status}) listing users: ${await response.text()}`
+      )
+    }
+    return {
+      users: (await response.json()) as OktaUser[],
+      next: getNextLink(response.headers.get('link')),
+    }
+  }
+
+  /**
+   * Get the number of API tokens requests are spread over
+   */
+  getTokenCount(): number {
+    return this.limiter.getUsage().length
+  }
+
+  /**
+   * Get the number of requests sent with each token
+   */
+  getUsage(): OktaTokenUsage[] {
+    return this.limiter.getUsage()
+  }
+
+  /**
+   * Send a GET request through the rate limiter and retry policy (internal
+   * method)
+   */
+  private get(url: string): Promise<Response> {
+    return fetchWithRetry(
+      () =>
+        this.limiter.fetch(url, { headers: { Accept: 'application/json' } }),
+      this.retryOptions
+    )
+  }
+}
@@ -0,0 +1,184 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DocumentNotFoundError, TimeoutError } from 'couchbase'
+import { Logger } from './logger.js'
+import {
+  fetchWithRetry,
+  getBackoffDelay,
+  getServerRetryDelay,
+  isRetryableCouchbaseError,
+  isRetryableFirebaseError,
+  isRetryablePrismaError,
+  withRetry,
+  type RetryOptions,
+  type RetryPolicy,
+} from './retry.js'
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  maxElapsedMs: 0,
+  jitter: 0,
+}
+
+const options: RetryOptions = {
+  policy,
+  logger: new Logger(false),
+  label: 'test',
+}
+
+describe('retry classifiers', () => {
+  it('retries Couchbase errors that can clear up', () => {
+    assert.equal(isRetryableCouchbaseError(new TimeoutError()), true)
+    assert.equal(isRetryableCouchbaseError(new Error('socket closed')), true)
+    assert.equal(isRetryableCouchbaseError(new DocumentNotFoundError()), false)
+  })
+
+  it('retries Prisma connection errors only', () => {
+    assert.equal(isRetryablePrismaError({ code: 'P1001' }), true)
+    assert.equal(isRetryablePrismaError({ code: 'P2034' }), true)
+    assert.equal(isRetryablePrismaError({ code: 'P2002' }), false)
+    assert.equal(isRetryablePrismaError(new Error('no code')), false)
+  })
+
+  it('retries Firebase network and quota errors only', () => {
+    assert.equal(isRetryableFirebaseError({ code: 'app/network-error' }), true)
+    assert.equal(
+      isRetryableFirebaseError({ code: 'auth/quota-exceeded' }),
+      true
+    )
+    assert.equal(
+      isRetryableFirebaseError({ code: 'auth/user-not-found' }),
+      false
+    )
+  })
+})
+
+describe('getBackoffDelay', () => {
+  it('doubles up to the maximum delay', () => {
+    const backoff = { ...policy, baseDelayMs: 100, maxDelayMs: 300 }
+    assert.equal(getBackoffDelay(backoff, 1), 100)
+    assert.equal(getBackoffDelay(backoff, 2), 200)
+    assert.equal(getBackoffDelay(backoff, 3), 300)
+  })
+
+  it('only shortens delays with jitter', () => {
+    const backoff = {
+      ...policy,
+      baseDelayMs: 1000,
+      maxDelayMs: 1000,
+      jitter: 0.5,
+    }
+    for (let i = 0; i < 20; i++) {
+      const delay = getBackoffDelay(backoff, 1)
+      assert.ok(delay >= 500 && delay <= 1000)
+    }
+  })
+})
+
+describe('getServerRetryDelay', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z')
+
+  it('reads Retry-After in seconds or as a date', () => {
+    assert.equal(
+      getServerRetryDelay(new Headers({ 'retry-after': '3' }), now),
+      3000
+    )
+    assert.equal(
+      getServerRetryDelay(
+        new Headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }),
+        now
+      ),
+      5000
+    )
+  })
+
+  it('waits for x-rate-limit-reset plus a buffer', () => {
+    const reset = String(now / 1000 + 2)
+    assert.equal(
+      getServerRetryDelay(new Headers({ 'x-rate-limit-reset': reset }), now),
+      2500
+    )
+  })
+
+  it('returns null without a usable header', () => {
+    assert.equal(getServerRetryDelay(new Headers(), now), null)
+    assert.equal(
+      getServerRetryDelay(new Headers({ 'retry-after': 'soon' }), now),
+      null
+    )
+  })
+})
+
+describe('withRetry', () => {
+  it('retries until the call succeeds', async () => {
+    let attempts = 0
+    const result = await withRetry(async () => {
+      attempts++
+      if (attempts < 3) throw new Error('flaky')
+      return 'done'
+    }, options)
+    assert.equal(result, 'done')
+    assert.equal(attempts, 3)
+  })
+
+  it('gives up after the last attempt', async () => {
+    let attempts = 0
+    await assert.rejects(
+      withRetry(async () => {
+        attempts++
+        throw new Error('down')
+      }, options),
+      /down/
+    )
+    assert.equal(attempts, 3)
+  })
+
+  it('does not retry errors the classifier rejects', async () => {
+    let attempts = 0
+    await assert.rejects(
+      withRetry(
+        async () => {
+          attempts++
+          throw new Error('bad request')
+        },
+        { ...options, isRetryable: () => false }
+      )
+    )
+    assert.equal(attempts, 1)
+  })
+})
+
+describe('fetchWithRetry', () => {
+  it('retries rate-limited responses and returns the first other one', async () => {
+    const statuses = [429, 503, 200]
+    let calls = 0
+    const response = await fetchWithRetry(async () => {
+      const status = statuses[calls++] ?? 200
+      return new Response(null, { status })
+    }, options)
+    assert.equal(response.status, 200)
+    assert.equal(calls, 3)
+  })
+
+  it('returns the last rate-limited response once retries run out', async () => {
+    let calls = 0
+    const response = await fetchWithRetry(async () => {
+      calls++
+      return new Response(null, { status: 429 })
+    }, options)
+    assert.equal(response.status, 429)
+    assert.equal(calls, 3)
+  })
+
+  it('does not retry client errors', async () => {
+    let calls = 0
+    const response = await fetchWithRetry(async () => {
+      calls++
+      return new Response(null, { status: 404 })
+    }, options)
+    assert.equal(response.status, 404)
+    assert.equal(calls, 1)
+  })
+})
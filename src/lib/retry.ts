@@ -0,0 +1,380 @@
+/**
+ * Retry
+ *
+ * One retry policy module for every external call the migrator makes:
+ * Couchbase, Okta, Firebase Admin and Prisma. Failed calls are retried with
+ * exponential backoff and jitter, within a number of attempts and a maximum
+ * elapsed time. Classifiers decide which errors are worth retrying, and
+ * rate-limited HTTP responses wait as long as the server asks (Retry-After or
+ * x-rate-limit-reset). Policies can be overridden with the RETRY_* variables
+ * or the --retry-* options
+ */
+
+import {
+  AuthenticationFailureError,
+  BucketNotFoundError,
+  CollectionNotFoundError,
+  DecodingFailureError,
+  DocumentExistsError,
+  DocumentNotFoundError,
+  IndexNotFoundError,
+  InvalidArgumentError,
+  ParsingFailureError,
+  PlanningFailureError,
+  ScopeNotFoundError,
+  ValueTooLargeError,
+} from 'couchbase'
+import { env } from './env.js'
+import { Logger } from './logger.js'
+
+export type RetryService = 'couchbase' | 'okta' | 'firebase' | 'prisma'
+
+export interface RetryPolicy {
+  maxAttempts: number // Attempts including the first
+  baseDelayMs: number // Delay before the first retry, doubled for each retry after it
+  maxDelayMs: number // Cap on a single backoff delay
+  maxElapsedMs: number // Give up instead of retrying past this long (0 = no limit)
+  jitter: number // Fraction of each backoff delay that is randomized (0-1)
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy
+  logger: Logger
+  label: string // Shown in retry warnings (e.g. "Okta")
+  isRetryable?: (error: unknown) => boolean // Default: retry every error
+  getRetryDelay?: (error: unknown) => number | null // Delay the server asked for
+  onRetry?: (error: unknown) => Promise<void> // Runs before each retry
+}
+
+const DEFAULT_POLICIES: Record<RetryService, RetryPolicy> = {
+  couchbase: {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    maxElapsedMs: 60000,
+    jitter: 0.2,
+  },
+  okta: {
+    maxAttempts: 5,
+    baseDelayMs: 5000,
+    maxDelayMs: 60000,
+    maxElapsedMs: 300000,
+    jitter: 0.2,
+  },
+  firebase: {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    maxElapsedMs: 60000,
+    jitter: 0.2,
+  },
+  prisma: {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 5000,
+    maxElapsedMs: 30000,
+    jitter: 0.2,
+  },
+}
+
+// Waited on top of x-rate-limit-reset to make sure the limit has reset
+const RATE_LIMIT_RESET_BUFFER_MS = 500
+
+// HTTP statuses worth retrying: rate limited or temporarily unavailable
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+// Couchbase errors that fail the same way however often they are retried
+const PERMANENT_COUCHBASE_ERRORS = [
+  AuthenticationFailureError,
+  BucketNotFoundError,
+  CollectionNotFoundError,
+  DecodingFailureError,
+  DocumentExistsError,
+  DocumentNotFoundError,
+  IndexNotFoundError,
+  InvalidArgumentError,
+  ParsingFailureError,
+  PlanningFailureError,
+  ScopeNotFoundError,
+  ValueTooLargeError,
+]
+
+// Prisma error codes for lost connections, timeouts and write conflicts
+const RETRYABLE_PRISMA_CODES = new Set([
+  'P1001', // Can't reach database server
+  'P1002', // Database server timed out
+  'P1008', // Operation timed out
+  'P1017', // Server closed the connection
+  'P2024', // Timed out fetching a connection from the pool
+  'P2034', // Write conflict or deadlock
+])
+
+const RETRYABLE_FIREBASE_CODES = new Set([
+  'app/network-error',
+  'app/network-timeout',
+  'app/internal-error',
+  'auth/internal-error',
+  'auth/quota-exceeded',
+])
+
+let policyOverrides: Partial<RetryPolicy> = {}
+
+/**
+ * Override every retry policy for the rest of the run (e.g. from CLI options)
+ * @param overrides Policy fields to override
+ */
+export function configureRetryPolicy(overrides: Partial<RetryPolicy>): void {
+  policyOverrides = { ...policyOverrides, ...overrides }
+}
+
+/**
+ * Get the retry policy for a service: its defaults, overridden by the
+ * RETRY_* variables, overridden by configureRetryPolicy
+ * @param service Service the calls go to
+ * @returns Retry policy
+ */
+export function getRetryPolicy(service: RetryService): RetryPolicy {
+  return {
+    ...DEFAULT_POLICIES[service],
+    ...(env.RETRY_MAX_ATTEMPTS !== undefined && {
+      maxAttempts: env.RETRY_MAX_ATTEMPTS,
+    }),
+    ...(env.RETRY_BASE_DELAY_MS !== undefined && {
+      baseDelayMs: env.RETRY_BASE_DELAY_MS,
+    }),
+    ...(env.RETRY_MAX_DELAY_MS !== undefined && {
+      maxDelayMs: env.RETRY_MAX_DELAY_MS,
+    }),
+    ...(env.RETRY_MAX_ELAPSED_MS !== undefined && {
+      maxElapsedMs: env.RETRY_MAX_ELAPSED_MS,
+    }),
+    ...(env.RETRY_JITTER !== undefined && { jitter: env.RETRY_JITTER }),
+    ...policyOverrides,
+  }
+}
+
+/**
+ * Check whether a Couchbase error may succeed on a retry
+ * Unknown errors are retried, since a dropped connection can surface as
+ * almost anything
+ */
+export function isRetryableCouchbaseError(error: unknown): boolean {
+  return !PERMANENT_COUCHBASE_ERRORS.some(
+    errorClass => error instanceof errorClass
+  )
+}
+
+/**
+ * Check whether a Prisma error may succeed on a retry
+ */
+export function isRetryablePrismaError(error: unknown): boolean {
+  return RETRYABLE_PRISMA_CODES.has(getErrorCode(error) ?? '')
+}
+
+/**
+ * Check whether a Firebase Admin error may succeed on a retry
+ */
+export function isRetryableFirebaseError(error: unknown): boolean {
+  return RETRYABLE_FIREBASE_CODES.has(getErrorCode(error) ?? '')
+}
+
+/**
+ * Get the code of an error (e.g. "P1001", "auth/internal-error")
+ * @param error Error thrown
+ * @returns Error code, or undefined if it has none
+ */
+function getErrorCode(error: unknown): string | undefined {
+  if (error !== null && typeof error === 'object' && 'code' in error) {
+    return typeof error.code === 'string' ? error.code : undefined
+  }
+  return undefined
+}
+
+const CLASSIFIERS: Record<RetryService, (error: unknown) => boolean> = {
+  couchbase: isRetryableCouchbaseError,
+  okta: () => true, // Failed requests are network errors; see fetchWithRetry
+  firebase: isRetryableFirebaseError,
+  prisma: isRetryablePrismaError,
+}
+
+/**
+ * Get the retry options for calls to a service
+ * @param service Service the calls go to
+ * @param logger Logger instance
+ * @param label Shown in retry warnings (default: the service name)
+ * @returns Retry options with the service's policy and classifier
+ */
+export function getRetryOptions(
+  service: RetryService,
+  logger: Logger,
+  label: string = service
+): RetryOptions {
+  return {
+    policy: getRetryPolicy(service),
+    logger,
+    label,
+    isRetryable: CLASSIFIERS[service],
+  }
+}
+
+/**
+ * Get the backoff delay before a retry
+ * @param policy Retry policy
+ * @param retry Number of the retry (1 for the first)
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, retry - 1)
+  )
+  // Spread retries of concurrent calls so they don't hit the server together
+  return Math.round(delay * (1 - policy.jitter * Math.random()))
+}
+
+/**
+ * Get the delay a rate-limited HTTP response asks for
+ * Retry-After is given in seconds or as an HTTP date, x-rate-limit-reset
+ * (Okta) as the Unix time in seconds the limit resets at
+ * @param headers Response headers
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or null if the response doesn't ask for one
+ */
+export function getServerRetryDelay(
+  headers: Headers,
+  now: number = Date.now()
+): number | null {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const retryAt = Number.isNaN(seconds)
+      ? Date.parse(retryAfter)
+      : now + seconds * 1000
+    if (!Number.isNaN(retryAt)) {
+      return Math.max(0, retryAt - now)
+    }
+  }
+
+  const rateLimitReset = headers.get('x-rate-limit-reset')
+  if (rateLimitReset) {
+    const resetTime = parseInt(rateLimitReset, 10) * 1000
+    if (!Number.isNaN(resetTime)) {
+      return Math.max(0, resetTime - now + RATE_LIMIT_RESET_BUFFER_MS)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Run a function, retrying it with backoff while it fails with a retryable
+ * error
+ * @param fn Function to run
+ * @param options Retry policy and hooks
+ * @returns Promise that resolves with the function result
+ * @throws The last error once it isn't retryable or the policy is exhausted
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { policy, logger, label, isRetryable, getRetryDelay, onRetry } = options
+  const startTime = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (isRetryable && !isRetryable(error)) {
+        throw error
+      }
+      if (attempt >= policy.maxAttempts) {
+        logger.error(
+          `❌ ${label}: failed after ${attempt} attempts: ${message}`
+        )
+        throw error
+      }
+
+      const delay = getRetryDelay?.(error) ?? getBackoffDelay(policy, attempt)
+      const elapsed = Date.now() - startTime
+      if (policy.maxElapsedMs > 0 && elapsed + delay > policy.maxElapsedMs) {
+        logger.error(
+          `❌ ${label}: giving up after ${attempt} attempts in ${elapsed}ms, waiting ${delay}ms more would exceed ${policy.maxElapsedMs}ms: ${message}`
+        )
+        throw error
+      }
+
+      logger.warn(
+        `⚠️ ${label}: attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${delay}ms: ${message}`
+      )
+      await new Promise(resolve => setTimeout(resolve, delay))
+      await onRetry?.(error)
+    }
+  }
+}
+
+/**
+ * Thrown inside fetchWithRetry for a response worth retrying
+ */
+class RetryableResponseError extends Error {
+  response: Response
+
+  constructor(response: Response) {
+    const rateLimitReset = response.headers.get('x-rate-limit-reset')
+    super(
+      `HTTP ${response.status}${rateLimitReset ? ` (x-rate-limit-reset: ${rateLimitReset})` : ''}`
+    )
+    this.name = 'RetryableResponseError'
+    this.response = response
+  }
+}
+
+/**
+ * Make an HTTP request, retrying network errors and rate-limited or
+ * unavailable responses (429, 502, 503, 504)
+ * Waits as long as Retry-After or x-rate-limit-reset asks for, otherwise
+ * backs off like withRetry
+ * @param fn Function that makes the request
+ * @param options Retry policy and hooks (isRetryable is ignored)
+ * @returns The first response that isn't retried - a successful one, an
+ * error that isn't worth retrying, or the last one once the policy is
+ * exhausted
+ */
+export async function fetchWithRetry(
+  fn: () => Promise<Response>,
+  options: RetryOptions
+): Promise<Response> {
+  try {
+    return await withRetry(
+      async () => {
+        const response = await fn()
+        if (RETRYABLE_STATUSES.has(response.status)) {
+          throw new RetryableResponseError(response)
+        }
+        return response
+      },
+      {
+        ...options,
+        isRetryable: () => true,
+        getRetryDelay: error =>
+          error instanceof RetryableResponseError
+            ? getServerRetryDelay(error.response.headers)
+            : null,
+        onRetry: async error => {
+          if (error instanceof RetryableResponseError) {
+            // Release the connection held by the unread body
+            await error.response.body?.cancel()
+          }
+          await options.onRetry?.(error)
+        },
+      }
+    )
+  } catch (error) {
+    if (error instanceof RetryableResponseError) {
+      return error.response
+    }
+    throw error
+  }
+}
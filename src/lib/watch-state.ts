@@ -0,0 +1,67 @@
+/**
+ * Watch State
+ *
+ * Persists the last Sync Gateway sequence the watch command has written to
+ * the cache, so a restarted watch picks up where the previous one stopped
+ */
+
+import { z } from 'zod'
+import { CacheStore } from './cache-store.js'
+import { Logger } from './logger.js'
+
+const WATCH_STATE_FILENAME = '.watch-state.json'
+
+const WatchStateSchema = z.object({
+  bucketName: z.string(),
+  sequence: z.number(), // Last _sync.sequence written to the cache
+  updatedAt: z.string(),
+})
+
+export type WatchState = z.infer<typeof WatchStateSchema>
+
+/**
+ * Read the state left by a previous watch
+ * @param store Cache store
+ * @param logger Logger instance
+ * @returns Watch state or null if there is none (or it is unreadable)
+ */
+export async function readWatchState(
+  store: CacheStore,
+  logger: Logger
+): Promise<WatchState | null> {
+  const statePath = `${store.location}/${WATCH_STATE_FILENAME}`
+
+  let fileContent: string
+  try {
+    fileContent = (await store.read(WATCH_STATE_FILENAME)).toString('utf8')
+  } catch {
+    return null
+  }
+
+  try {
+    const parseResult = WatchStateSchema.safeParse(JSON.parse(fileContent))
+    if (!parseResult.success) {
+      logger.warn(
+        `⚠️ Ignoring invalid watch state ${statePath}:`,
+        parseResult.error.issues
+      )
+      return null
+    }
+    return parseResult.data
+  } catch (error) {
+    logger.warn(`⚠️ Could not parse watch state ${statePath}:`, error)
+    return null
+  }
+}
+
+/**
+ * Write the state after a batch of changes has been cached
+ * @param store Cache store
+ * @param state State to persist
+ */
+export async function writeWatchState(
+  store: CacheStore,
+  state: WatchState
+): Promise<void> {
+  await store.write(WATCH_STATE_FILENAME, JSON.stringify(state, null, 2))
+}
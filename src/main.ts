@@ -6,10 +6,53 @@
  * This is the main entry point for the Couchbase migration tool.
  */
 
-import { Command } from 'commander'
+import { Command, InvalidArgumentError } from 'commander'
 import { buildCache } from './commands/buildCache.js'
+import { fetchDocuments, readIdsFile } from './commands/fetch.js'
+import { health } from './commands/health.js'
 import { ingest } from './commands/ingest.js'
+import { oktaSync } from './commands/oktaSync.js'
+import { verifyCache } from './commands/verifyCache.js'
+import { DEFAULT_WATCH_PREFIXES, watch } from './commands/watch.js'
+import { parseKeyspace } from './lib/couchbase.js'
 import { Logger } from './lib/logger.js'
+import { configureRetryPolicy } from './lib/retry.js'
+
+/**
+ * Collect a repeatable option into an array
+ * @param value Value passed for this occurrence of the option
+ * @param previous Values collected so far
+ * @returns All values collected so far
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Parse a retry option that must be a non-negative number
+ * @param value Value passed for the option
+ * @returns The number
+ */
+function parseRetryOption(value: string): number {
+  const number = Number(value)
+  if (value.trim() === '' || Number.isNaN(number) || number < 0) {
+    throw new InvalidArgumentError('Must be a non-negative number.')
+  }
+  return number
+}
+
+/**
+ * Parse an option that must be a positive whole number
+ * @param value Value passed for the option
+ * @returns The number
+ */
+function parsePositiveIntOption(value: string): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidArgumentError('Must be a positive whole number.')
+  }
+  return number
+}
 
 // Create commander program
 const program = new Command()
@@ -18,23 +61,380 @@ program
   .name('couchbase-migrator')
   .description('Document migration tool for Couchbase')
   .version('1.0.0')
+  .option(
+    '--retry-attempts <number>',
+    'attempts per Couchbase, Okta, Firebase or Prisma call, including the first (default: per service, or RETRY_MAX_ATTEMPTS)',
+    parseRetryOption
+  )
+  .option(
+    '--retry-base-delay <ms>',
+    'delay before the first retry, doubled for each retry after it (default: per service, or RETRY_BASE_DELAY_MS)',
+    parseRetryOption
+  )
+  .option(
+    '--retry-max-elapsed <ms>',
+    'give up retrying a call after this long, 0 for no limit (default: per service, or RETRY_MAX_ELAPSED_MS)',
+    parseRetryOption
+  )
+  .hook('preAction', () => {
+    const options = program.opts()
+    configureRetryPolicy({
+      ...(options['retryAttempts'] !== undefined && {
+        maxAttempts: Math.max(1, options['retryAttempts']),
+      }),
+      ...(options['retryBaseDelay'] !== undefined && {
+        baseDelayMs: options['retryBaseDelay'],
+      }),
+      ...(options['retryMaxElapsed'] !== undefined && {
+        maxElapsedMs: options['retryMaxElapsed'],
+      }),
+    })
+  })
 
 // Build cache subcommand
 program
   .command('build-cache')
   .description('Build document cache by migrating documents from Couchbase')
   .option(
-    '--skip-attachments',
-    'skip processing binary attachments (only process JSON documents)'
+    '--attachments',
+    'also download binary attachments in a second pass after the JSON documents'
+  )
+  .option(
+    '--no-attachments',
+    'skip binary attachments and only process JSON documents (default)'
+  )
+  .option(
+    '--attachments-only',
+    'only download binary attachments, skipping JSON documents'
+  )
+  .option(
+    '--bucket <name>',
+    'bucket to cache (repeatable, default: COUCHBASE_BUCKET_NAME); with several buckets each is cached in <cache-dir>/<bucket>',
+    collect,
+    []
+  )
+  .option(
+    '--cache-dir <location>',
+    'where to write the cache: a local directory or s3://bucket/prefix',
+    './tmp'
+  )
+  .option(
+    '--format <format>',
+    'cache layout for JSON documents: files (one file per document) or archive (gzipped NDJSON segments per ID prefix)',
+    'files'
+  )
+  .option(
+    '--include-prefix <prefix>',
+    'only process documents whose ID starts with this prefix (repeatable)',
+    collect,
+    []
+  )
+  .option(
+    '--exclude-prefix <prefix>',
+    'skip documents whose ID starts with this prefix (repeatable)',
+    collect,
+    []
+  )
+  .option(
+    '--ids-file <path>',
+    'only fetch the document IDs listed in this file (one per line) instead of walking the whole bucket; with --incremental, cached copies whose CAS changed are rewritten'
+  )
+  .option(
+    '--resume',
+    'resume from the checkpoint left by an interrupted run (default: false)'
+  )
+  .option(
+    '--incremental',
+    'only rewrite documents whose CAS changed since the last run and remove deleted ones (default: false)'
+  )
+  .option(
+    '--attachment-map',
+    'after the build, map every cached document to its attachments in attachment-map.json; reads every cached JSON document and looks up uncached digests in the bucket (default: false)'
+  )
+  .option(
+    '--concurrency <number>',
+    'number of documents to write concurrently (default: 10)',
+    parsePositiveIntOption,
+    10
   )
   .option('--debug', 'show verbose debug logging (default: false)')
   .action(async options => {
     const logger = new Logger(options.debug || false)
     try {
+      if (options.attachmentsOnly && options.attachments === false) {
+        throw new Error(
+          '--attachments-only cannot be combined with --no-attachments'
+        )
+      }
+      if (options.format !== 'files' && options.format !== 'archive') {
+        throw new Error(
+          `--format must be files or archive, got ${options.format}`
+        )
+      }
+      if (options.idsFile) {
+        if (
+          options.bucket.length > 0 ||
+          options.resume ||
+          options.attachmentsOnly ||
+          options.includePrefix.length > 0 ||
+          options.excludePrefix.length > 0 ||
+          options.attachmentMap
+        ) {
+          throw new Error(
+            '--ids-file cannot be combined with --bucket, --resume, --attachments-only, --include-prefix, --exclude-prefix or --attachment-map'
+          )
+        }
+        const summary = await fetchDocuments({
+          ids: await readIdsFile(options.idsFile),
+          cacheDir: options.cacheDir,
+          format: options.format,
+          overwrite: options.incremental || false,
+          concurrency: options.concurrency,
+          debug: options.debug || false,
+        })
+        if (summary.failed > 0 || summary.notFound.length > 0) {
+          process.exit(1)
+        }
+        return
+      }
       await buildCache({
         ...options,
+        attachments: options.attachmentsOnly
+          ? 'only'
+          : options.attachments
+            ? 'include'
+            : 'skip',
+        buckets: options.bucket,
+        includePrefixes: options.includePrefix,
+        excludePrefixes: options.excludePrefix,
+        debug: options.debug || false,
+      })
+    } catch (error) {
+      logger.error('❌ Fatal error:', error)
+      process.exit(1)
+    }
+  })
+
+// Fetch subcommand
+program
+  .command('fetch')
+  .description('Fetch specific documents by ID from Couchbase into the cache')
+  .argument('<ids...>', 'document IDs to fetch (e.g. pl_123)')
+  .option(
+    '--cache-dir <location>',
+    'where to write the cache: a local directory or s3://bucket/prefix',
+    './tmp'
+  )
+  .option(
+    '--format <format>',
+    'cache layout for JSON documents: files or archive (default: the layout the cache already uses)'
+  )
+  .option(
+    '--overwrite',
+    'rewrite cached copies whose CAS changed (default: false)'
+  )
+  .option(
+    '--keyspace <scope.collection>',
+    'keyspace to fetch from (default: the first collection in COUCHBASE_COLLECTIONS)'
+  )
+  .option(
+    '--concurrency <number>',
+    'number of documents to fetch concurrently (default: 10)',
+    parsePositiveIntOption,
+    10
+  )
+  .option('--debug', 'show verbose debug logging (default: false)')
+  .action(async (ids: string[], options) => {
+    const logger = new Logger(options.debug || false)
+    try {
+      if (
+        options.format !== undefined &&
+        options.format !== 'files' &&
+        options.format !== 'archive'
+      ) {
+        throw new Error(
+          `--format must be files or archive, got ${options.format}`
+        )
+      }
+      const summary = await fetchDocuments({
+        ...options,
+        ids,
+        keyspace: options.keyspace
+          ? parseKeyspace(options.keyspace)
+          : undefined,
         debug: options.debug || false,
       })
+      if (summary.failed > 0 || summary.notFound.length > 0) {
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error('❌ Fatal error:', error)
+      process.exit(1)
+    }
+  })
+
+// Watch subcommand
+program
+  .command('watch')
+  .description(
+    'Poll Couchbase for changed documents and rewrite them in the cache (deleted documents are left in the cache - run build-cache --incremental to remove them)'
+  )
+  .option(
+    '--cache-dir <location>',
+    'where to write the cache: a local directory or s3://bucket/prefix',
+    './tmp'
+  )
+  .option(
+    '--since <sequence>',
+    'only pick up documents with a higher _sync.sequence (default: where the last watch stopped, or the newest document)'
+  )
+  .option(
+    '--include-prefix <prefix>',
+    `watch documents whose ID starts with this prefix (repeatable, default: ${DEFAULT_WATCH_PREFIXES.join(', ')})`,
+    collect,
+    []
+  )
+  .option(
+    '--keyspace <scope.collection>',
+    'keyspace to watch (default: the first collection in COUCHBASE_COLLECTIONS)'
+  )
+  .option(
+    '--interval <seconds>',
+    'seconds between polls (default: 30)',
+    parsePositiveIntOption,
+    30
+  )
+  .option(
+    '--ingest',
+    'also push changed documents through the ingest pipelines'
+  )
+  .option('--dry-run', 'with --ingest, perform a dry run of the ingestion')
+  .option(
+    '--rules <path>',
+    'with --ingest, JSON file of rules that skip or force-include documents (default: ingest-rules.json next to package.json)'
+  )
+  .option('--once', 'poll once and exit instead of watching until stopped')
+  .option(
+    '--concurrency <number>',
+    'number of documents to write concurrently (default: 10)',
+    parsePositiveIntOption,
+    10
+  )
+  .option('--debug', 'show verbose debug logging (default: false)')
+  .action(async options => {
+    const logger = new Logger(options.debug || false)
+    try {
+      const since =
+        options.since !== undefined ? parseInt(options.since, 10) : undefined
+      if (since !== undefined && Number.isNaN(since)) {
+        throw new Error(`--since must be a number, got ${options.since}`)
+      }
+      const summary = await watch({
+        ...options,
+        since,
+        rulesFile: options.rules,
+        keyspace: options.keyspace
+          ? parseKeyspace(options.keyspace)
+          : undefined,
+        includePrefixes:
+          options.includePrefix.length > 0
+            ? options.includePrefix
+            : DEFAULT_WATCH_PREFIXES,
+        debug: options.debug || false,
+      })
+      if (summary.failed > 0) {
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error('❌ Fatal error:', error)
+      process.exit(1)
+    }
+  })
+
+// Verify cache subcommand
+program
+  .command('verify-cache')
+  .description(
+    'Re-check every cached attachment against the SHA-1 digest in its ID'
+  )
+  .option(
+    '--source-dir <location>',
+    'source directory for cached documents (or s3://bucket/prefix)',
+    './tmp'
+  )
+  .option(
+    '--bucket <name>',
+    'bucket whose cache to check (repeatable, default: COUCHBASE_BUCKET_NAME); with several buckets each is read from <source-dir>/<bucket>',
+    collect,
+    []
+  )
+  .option(
+    '--keyspace <scope.collection>',
+    'keyspace whose cache to check (repeatable, default: every collection in COUCHBASE_COLLECTIONS)',
+    collect,
+    []
+  )
+  .option('--debug', 'show verbose debug logging (default: false)')
+  .action(async options => {
+    const logger = new Logger(options.debug || false)
+    try {
+      const summary = await verifyCache({
+        sourceDir: options.sourceDir,
+        buckets: options.bucket,
+        ...(options.keyspace.length > 0 && {
+          keyspaces: options.keyspace.map(parseKeyspace),
+        }),
+        debug: options.debug || false,
+      })
+      if (summary.mismatched > 0 || summary.missing > 0) {
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error('❌ Fatal error:', error)
+      process.exit(1)
+    }
+  })
+
+// Health subcommand
+program
+  .command('health')
+  .description(
+    'Ping Couchbase and report service latency and keyspace reachability'
+  )
+  .option(
+    '--bucket <name>',
+    'bucket to check (repeatable, default: COUCHBASE_BUCKET_NAME)',
+    collect,
+    []
+  )
+  .option('--debug', 'show verbose debug logging (default: false)')
+  .action(async options => {
+    const logger = new Logger(options.debug || false)
+    try {
+      const results = await health({
+        buckets: options.bucket,
+        debug: options.debug || false,
+      })
+      if (results.some(result => !result.healthy)) {
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error('❌ Fatal error:', error)
+      process.exit(1)
+    }
+  })
+
+// Okta sync subcommand
+program
+  .command('okta-sync')
+  .description(
+    'Store a snapshot of every Okta user in the local users database for the users pipeline'
+  )
+  .option('--debug', 'show verbose debug logging (default: false)')
+  .action(async options => {
+    const logger = new Logger(options.debug || false)
+    try {
+      await oktaSync({ debug: options.debug || false })
     } catch (error) {
       logger.error('❌ Fatal error:', error)
       process.exit(1)
@@ -44,12 +444,35 @@ program
 // Ingest subcommand
 program
   .command('ingest')
-  .description('Ingest documents from cache into Core')
+  .description(
+    'Ingest documents from cache (or straight from Couchbase) into Core'
+  )
   .option(
-    '--source-dir <path>',
-    'source directory for cached documents',
+    '--source-dir <location>',
+    'source directory for cached documents (or s3://bucket/prefix)',
     './tmp'
   )
+  .option(
+    '--from <source>',
+    'where to read documents from: cache, or couchbase to bypass the cache for a targeted re-migration (needs --id or --prefix)',
+    'cache'
+  )
+  .option(
+    '--id <id>',
+    'document ID to read with --from couchbase (repeatable)',
+    collect,
+    []
+  )
+  .option(
+    '--prefix <prefix>',
+    'read every document whose ID starts with this prefix with --from couchbase (repeatable)',
+    collect,
+    []
+  )
+  .option(
+    '--keyspace <scope.collection>',
+    'keyspace to read with --from couchbase (default: the first collection in COUCHBASE_COLLECTIONS)'
+  )
   .option(
     '--pipeline <type>',
     'specify which pipeline to run: users, playlists, or all',
@@ -57,22 +480,47 @@ program
   )
   .option(
     '--file <name>',
-    'specify a single file to ingest (only works with --pipeline users or --pipeline playlists)'
+    'specify a single file (or original document ID) to ingest (only works with --pipeline users or --pipeline playlists)'
+  )
+  .option(
+    '--rules <path>',
+    'JSON file of rules that skip or force-include documents by id, owner, email, SSO GUID or CAS (default: ingest-rules.json next to package.json)'
   )
   .option('--dry-run', 'perform a dry run without actually ingesting data')
+  .option(
+    '--refresh-okta',
+    'search Okta for every user, ignoring lookups cached by earlier runs (OKTA_CACHE_TTL_HOURS) and the okta-sync snapshot'
+  )
   .option(
     '--concurrency <number>',
     'number of files to process concurrently (default: 10)',
-    '10'
+    parsePositiveIntOption,
+    10
   )
   .option('--debug', 'show verbose debug logging (default: false)')
   .action(async options => {
     const logger = new Logger(options.debug || false)
     try {
+      if (options.from !== 'cache' && options.from !== 'couchbase') {
+        throw new Error(
+          `--from must be cache or couchbase, got ${options.from}`
+        )
+      }
+      if (
+        options.from === 'cache' &&
+        (options.id.length > 0 || options.prefix.length > 0)
+      ) {
+        throw new Error(
+          '--id and --prefix can only be used with --from couchbase'
+        )
+      }
       await ingest({
         ...options,
-        concurrency: options.concurrency
-          ? parseInt(options.concurrency, 10)
+        ids: options.id,
+        prefixes: options.prefix,
+        rulesFile: options.rules,
+        keyspace: options.keyspace
+          ? parseKeyspace(options.keyspace)
           : undefined,
         debug: options.debug || false,
       })